@@ -0,0 +1,145 @@
+/// <reference types="node" />
+/**
+ * @file runScenarios.ts
+ *
+ * Command-line runner: evaluates the scenarios of a JSON or CSV file (see
+ * 'src/lib/scenarioFile.ts') with the kinetic model and the component library, and
+ * writes all model outputs and component properties as CSV or JSON.
+ *
+ *     npm run cli -- scenarios.csv [--output results.json] [--format csv|json]
+ *                    [--parameters set.json] [--components ETHYLENE,HYDROGEN]
+ *
+ * Results go to stdout unless --output is given; messages go to stderr.
+ * Exit codes: 0 = all scenarios ok, 1 = usage error, 2 = invalid input (unreadable
+ * file, bad field or value, unknown component, inputs rejected by validation),
+ * 3 = numerical failure (non-finite outputs, or a mass balance that does not close),
+ * 4 = the results could not be written. Results are still written for exit codes 2
+ * and 3 when the file could be read; the 'status' of each scenario tells them apart.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { componentLibrary } from '../lib/componentData';
+import { parseKineticParameterSet, defaultKineticParameters, type KineticParameterSet } from '../lib/kineticParameters';
+import { parseScenarioFile, resultsToCsv, resultsToJson, runScenario, type Scenario, type ScenarioResult } from '../lib/scenarioFile';
+
+const EXIT_OK = 0;
+const EXIT_USAGE = 1;
+const EXIT_INVALID_INPUT = 2;
+const EXIT_NUMERICAL_FAILURE = 3;
+const EXIT_OUTPUT_ERROR = 4;
+
+const USAGE = `Usage: npm run cli -- <scenarios.json|scenarios.csv> [options]
+
+Options:
+  --output <file>         Write the results to a file instead of stdout
+  --format <csv|json>     Output format (default: from the output file extension, else csv)
+  --parameters <file>     Kinetic parameter set (JSON) instead of the default constants
+  --components <a,b,...>  Components whose properties are reported
+  --help                  Show this help
+
+Exit codes: 0 ok, 1 usage error, 2 invalid input, 3 numerical failure,
+4 results could not be written`;
+
+interface CliArguments {
+    scenarioFile: string;
+    output?: string;
+    format: 'csv' | 'json';
+    parameters?: string;
+    components?: string[];
+}
+
+function parseArguments(args: string[]): CliArguments | null {
+    const options: Record<string, string> = {};
+    const positional: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--help' || arg === '-h') return null;
+        if (arg.startsWith('--')) {
+            const name = arg.slice(2);
+            if (!['output', 'format', 'parameters', 'components'].includes(name)) {
+                throw new Error(`Unknown option ${arg}.`);
+            }
+            if (i + 1 >= args.length) throw new Error(`Option ${arg} needs a value.`);
+            options[name] = args[++i];
+        } else {
+            positional.push(arg);
+        }
+    }
+    if (positional.length !== 1) {
+        throw new Error('Give exactly one scenario file.');
+    }
+    const format = options.format ?? (options.output && extname(options.output).toLowerCase() === '.json' ? 'json' : 'csv');
+    if (format !== 'csv' && format !== 'json') {
+        throw new Error(`Unknown format "${format}"; use csv or json.`);
+    }
+    return {
+        scenarioFile: positional[0],
+        output: options.output,
+        format,
+        parameters: options.parameters,
+        components: options.components?.split(',').map(c => c.trim()).filter(c => c !== ''),
+    };
+}
+
+function main(args: string[]): number {
+    let cli: CliArguments | null;
+    try {
+        cli = parseArguments(args);
+    } catch (e) {
+        console.error(`${(e as Error).message}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+    if (!cli) {
+        console.error(USAGE);
+        return EXIT_OK;
+    }
+
+    // --- Read the input files: any problem here is invalid input ---
+    let scenarios: Scenario[];
+    let kineticParameters: KineticParameterSet = defaultKineticParameters;
+    try {
+        const unknown = (cli.components ?? []).filter(name => !componentLibrary.has(name));
+        if (unknown.length > 0) {
+            throw new Error(`Unknown component(s) ${unknown.join(', ')}; the library has ${[...componentLibrary.keys()].join(', ')}.`);
+        }
+        if (cli.parameters) {
+            kineticParameters = parseKineticParameterSet(readFileSync(cli.parameters, 'utf8'));
+        }
+        const format = extname(cli.scenarioFile).toLowerCase() === '.json' ? 'json' : 'csv';
+        scenarios = parseScenarioFile(readFileSync(cli.scenarioFile, 'utf8'), format);
+    } catch (e) {
+        console.error(`Invalid input: ${(e as Error).message}`);
+        return EXIT_INVALID_INPUT;
+    }
+
+    // --- Run and report ---
+    let results: ScenarioResult[];
+    try {
+        results = scenarios.map(scenario => runScenario(scenario, { kineticParameters, components: cli.components }));
+    } catch (e) {
+        console.error(`Numerical failure: ${(e as Error).message}`);
+        return EXIT_NUMERICAL_FAILURE;
+    }
+    const text = cli.format === 'json' ? resultsToJson(results) : resultsToCsv(results);
+    if (cli.output) {
+        try {
+            writeFileSync(cli.output, text);
+        } catch (e) {
+            console.error(`Cannot write the results: ${(e as Error).message}`);
+            return EXIT_OUTPUT_ERROR;
+        }
+    } else {
+        process.stdout.write(text);
+    }
+
+    for (const result of results) {
+        for (const issue of result.issues.filter(i => i.severity === 'error')) {
+            console.error(`${result.name}: ${result.status === 'invalid' ? 'invalid input' : 'numerical failure'}: ${issue.message}`);
+        }
+    }
+    if (results.some(r => r.status === 'invalid')) return EXIT_INVALID_INPUT;
+    if (results.some(r => r.status === 'failed')) return EXIT_NUMERICAL_FAILURE;
+    return EXIT_OK;
+}
+
+process.exitCode = main(process.argv.slice(2));
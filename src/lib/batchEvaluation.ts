@@ -0,0 +1,198 @@
+/**
+ * @file batchEvaluation.ts
+ *
+ * Evaluation of the kinetic model at many operating points, e.g. for 1D and 2D
+ * parameter sweeps. Points are passed column-wise: a base input set plus one typed
+ * array per varied input, and the selected outputs come back as typed arrays of the
+ * same length. Typed arrays can be transferred to and from a Web Worker without
+ * copying (see 'batchWorker.ts').
+ *
+ * The rate constants depend only on temperature, so they are computed once per
+ * distinct temperature and reused for all points at that temperature.
+ */
+import { calculateReactionRates, type ZieglerModelInputs } from './zieglerModel';
+import { calculateRateConstants, defaultKineticParameters, type KineticParameterSet, type RateConstants } from './kineticParameters';
+import { predictQuantity, type MeasuredQuantity } from './parameterEstimation';
+import { DEFAULT_SENSITIVITY_OUTPUTS, type SensitivityInput } from './sensitivityAnalysis';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * Operating points in columnar form. Inputs without a column take their base value.
+ */
+export interface BatchInputs {
+    length: number;                                                 // Number of points
+    base: ZieglerModelInputs;
+    columns: Partial<Record<keyof ZieglerModelInputs, Float64Array>>; // One value per point
+}
+
+/**
+ * Options of a batch evaluation. All fields are optional.
+ */
+export interface BatchOptions {
+    outputs?: MeasuredQuantity[];       // Default: production rate, hydrogen consumption, Mw
+    kineticParameters?: KineticParameterSet;
+}
+
+/**
+ * Selected outputs of every point; points whose evaluation failed hold NaN.
+ */
+export interface BatchResult {
+    length: number;
+    outputs: Partial<Record<MeasuredQuantity, Float64Array>>;
+    completed: number;                  // Points evaluated (less than length when cancelled)
+    cancelled: boolean;
+}
+
+/**
+ * One axis of a sweep: an input and the values it takes.
+ */
+export interface SweepAxis {
+    input: SensitivityInput;
+    values: number[];
+}
+
+
+// ===================================================================================
+// 2. RATE CONSTANT CACHE
+// ===================================================================================
+
+const CACHE_SIZE = 4096;
+
+/**
+ * Returns a function that gives the rate constants at a temperature, computing them
+ * only once per distinct temperature. The cache is cleared when it grows past
+ * CACHE_SIZE entries, which bounds its memory for sweeps over temperature.
+ */
+export function createRateConstantCache(parameters: KineticParameterSet = defaultKineticParameters): (T: number) => RateConstants {
+    const cache = new Map<number, RateConstants>();
+    return (T: number) => {
+        let constants = cache.get(T);
+        if (!constants) {
+            if (cache.size >= CACHE_SIZE) cache.clear();
+            constants = calculateRateConstants(T, parameters);
+            cache.set(T, constants);
+        }
+        return constants;
+    };
+}
+
+
+// ===================================================================================
+// 3. BATCH EVALUATION
+// ===================================================================================
+
+/**
+ * Allocates the output columns of a batch, filled with NaN.
+ */
+export function createBatchResult(batch: BatchInputs, outputs: MeasuredQuantity[] = DEFAULT_SENSITIVITY_OUTPUTS): BatchResult {
+    const columns: Partial<Record<MeasuredQuantity, Float64Array>> = {};
+    for (const quantity of outputs) {
+        columns[quantity] = new Float64Array(batch.length).fill(NaN);
+    }
+    return { length: batch.length, outputs: columns, completed: 0, cancelled: false };
+}
+
+/**
+ * Evaluates the points [start, end) of a batch into an existing result. Calling it
+ * chunk by chunk lets a caller report progress and react to cancellation in between.
+ * @param batch The operating points.
+ * @param result The result to fill (see createBatchResult).
+ * @param start First point.
+ * @param end One past the last point.
+ * @param rateConstantsAt Rate constant lookup (see createRateConstantCache).
+ * @param parameters The kinetic parameter set the lookup was built for.
+ */
+export function evaluateBatchRange(
+    batch: BatchInputs,
+    result: BatchResult,
+    start: number,
+    end: number,
+    rateConstantsAt: (T: number) => RateConstants,
+    parameters: KineticParameterSet = defaultKineticParameters,
+): void {
+    const inputs = { ...batch.base };
+    const varied = Object.entries(batch.columns) as [keyof ZieglerModelInputs, Float64Array][];
+    const outputs = Object.entries(result.outputs) as [MeasuredQuantity, Float64Array][];
+
+    for (let i = start; i < Math.min(end, batch.length); i++) {
+        for (const [key, column] of varied) {
+            inputs[key] = column[i];
+        }
+        try {
+            const modelOutputs = calculateReactionRates(inputs, parameters, rateConstantsAt(inputs.temperature));
+            for (const [quantity, column] of outputs) {
+                column[i] = predictQuantity(quantity, modelOutputs);
+            }
+        } catch {
+            // Leave NaN in the output columns of this point
+        }
+    }
+    result.completed = Math.max(result.completed, Math.min(end, batch.length));
+}
+
+/**
+ * Evaluates all points of a batch on the calling thread.
+ * @param batch The operating points.
+ * @param options Outputs and kinetic parameter set.
+ * @returns The output columns.
+ */
+export function evaluateBatch(batch: BatchInputs, options: BatchOptions = {}): BatchResult {
+    validateBatch(batch);
+    const parameters = options.kineticParameters ?? defaultKineticParameters;
+    const result = createBatchResult(batch, options.outputs);
+    evaluateBatchRange(batch, result, 0, batch.length, createRateConstantCache(parameters), parameters);
+    return result;
+}
+
+/**
+ * Checks that every column has one value per point.
+ * @throws Error if a column has the wrong length.
+ */
+export function validateBatch(batch: BatchInputs): void {
+    if (!(Number.isInteger(batch.length) && batch.length >= 0)) {
+        throw new Error('Batch length must be a non-negative integer.');
+    }
+    for (const [key, column] of Object.entries(batch.columns)) {
+        if (column && column.length !== batch.length) {
+            throw new Error(`Column "${key}" has ${column.length} values for ${batch.length} points.`);
+        }
+    }
+}
+
+
+// ===================================================================================
+// 4. SWEEPS
+// ===================================================================================
+
+/**
+ * Returns `points` equally spaced values from `from` to `to` (inclusive).
+ */
+export function linspace(from: number, to: number, points: number): number[] {
+    if (points < 2) return [from];
+    return Array.from({ length: points }, (_, i) => from + ((to - from) * i) / (points - 1));
+}
+
+/**
+ * Builds the points of a full-factorial sweep over one or more axes. The last axis
+ * varies fastest, so a 2D sweep is stored row by row (rows = first axis).
+ * @param base The inputs of all points, apart from the swept ones.
+ * @param axes The swept inputs and their values.
+ */
+export function buildSweep(base: ZieglerModelInputs, axes: SweepAxis[]): BatchInputs {
+    const length = axes.reduce((n, axis) => n * axis.values.length, 1);
+    const columns: Partial<Record<keyof ZieglerModelInputs, Float64Array>> = {};
+    let repeat = length;
+    for (const axis of axes) {
+        const column = new Float64Array(length);
+        repeat /= axis.values.length;
+        // Each value is held for `repeat` points, and the pattern cycles over the remaining length
+        for (let i = 0; i < length; i++) {
+            column[i] = axis.values[Math.floor(i / repeat) % axis.values.length];
+        }
+        columns[axis.input] = column;
+    }
+    return { length, base, columns };
+}
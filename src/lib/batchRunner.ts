@@ -0,0 +1,65 @@
+/**
+ * @file batchRunner.ts
+ *
+ * Main-thread side of the batch worker: runs a batch in 'batchWorker.ts' and returns
+ * a promise of the result, with progress callbacks and cancellation via an AbortSignal.
+ * A cancelled run resolves with the points evaluated so far (`cancelled: true`).
+ */
+import type { BatchInputs, BatchOptions, BatchResult } from './batchEvaluation';
+import type { BatchWorkerRequest, BatchWorkerResponse } from './batchWorker';
+
+/**
+ * Controls of a run in the worker. All fields are optional.
+ */
+export interface BatchRunOptions extends BatchOptions {
+    onProgress?: (completed: number, total: number) => void;
+    signal?: AbortSignal;               // Aborting cancels the run
+    chunkSize?: number;                 // Points per progress report, a whole number >= 1 (default 2000)
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+
+function getWorker(): Worker {
+    worker ??= new Worker(new URL('./batchWorker.ts', import.meta.url), { type: 'module' });
+    return worker;
+}
+
+/**
+ * Evaluates a batch in the background worker.
+ * The input columns are copied to the worker, so the caller may keep using them.
+ * @param batch The operating points.
+ * @param options Outputs, kinetic parameters, progress callback and abort signal.
+ * @returns The output columns.
+ */
+export function runBatchInWorker(batch: BatchInputs, options: BatchRunOptions = {}): Promise<BatchResult> {
+    const { onProgress, signal, chunkSize, ...batchOptions } = options;
+    const target = getWorker();
+    const id = nextId++;
+
+    return new Promise((resolve, reject) => {
+        const cancel = () => target.postMessage({ type: 'cancel', id } satisfies BatchWorkerRequest);
+        const finish = () => {
+            target.removeEventListener('message', onMessage);
+            signal?.removeEventListener('abort', cancel);
+        };
+        const onMessage = (event: MessageEvent<BatchWorkerResponse>) => {
+            const response = event.data;
+            if (response.id !== id) return;
+            if (response.type === 'progress') {
+                onProgress?.(response.completed, response.total);
+            } else if (response.type === 'done') {
+                finish();
+                resolve(response.result);
+            } else {
+                finish();
+                reject(new Error(response.message));
+            }
+        };
+
+        target.addEventListener('message', onMessage);
+        signal?.addEventListener('abort', cancel);
+        target.postMessage({ type: 'run', id, batch, options: batchOptions, chunkSize } satisfies BatchWorkerRequest);
+        if (signal?.aborted) cancel();
+    });
+}
@@ -0,0 +1,84 @@
+/**
+ * @file batchWorker.ts
+ *
+ * Web Worker that evaluates batches (see 'batchEvaluation.ts') off the main thread.
+ * Points are evaluated in chunks; after every chunk the worker reports progress and
+ * yields, so that a cancel message sent meanwhile is handled before the next chunk.
+ * Output columns are transferred back without copying. Start it through 'batchRunner.ts'.
+ */
+import {
+    createBatchResult,
+    createRateConstantCache,
+    evaluateBatchRange,
+    validateBatch,
+    type BatchInputs,
+    type BatchOptions,
+    type BatchResult,
+} from './batchEvaluation';
+import { defaultKineticParameters } from './kineticParameters';
+
+// ===================================================================================
+// 1. MESSAGES
+// ===================================================================================
+
+/** Messages from the main thread to the worker. */
+export type BatchWorkerRequest =
+    | { type: 'run'; id: number; batch: BatchInputs; options: BatchOptions; chunkSize?: number }
+    | { type: 'cancel'; id: number };
+
+/** Messages from the worker to the main thread. */
+export type BatchWorkerResponse =
+    | { type: 'progress'; id: number; completed: number; total: number }
+    | { type: 'done'; id: number; result: BatchResult }
+    | { type: 'error'; id: number; message: string };
+
+const DEFAULT_CHUNK_SIZE = 2000;
+
+
+// ===================================================================================
+// 2. MESSAGE HANDLING
+// ===================================================================================
+
+const active = new Set<number>();      // Runs in progress; only these can be cancelled
+const cancelled = new Set<number>();
+
+function post(message: BatchWorkerResponse, transfer: Transferable[] = []) {
+    self.postMessage(message, { transfer });
+}
+
+async function run(id: number, batch: BatchInputs, options: BatchOptions, chunkSize: number) {
+    if (!(Number.isInteger(chunkSize) && chunkSize >= 1)) {
+        throw new Error(`Chunk size must be a whole number of at least 1 (got ${chunkSize}).`);
+    }
+    validateBatch(batch);
+    const parameters = options.kineticParameters ?? defaultKineticParameters;
+    const rateConstantsAt = createRateConstantCache(parameters);
+    const result = createBatchResult(batch, options.outputs);
+
+    for (let start = 0; start < batch.length; start += chunkSize) {
+        if (cancelled.has(id)) {
+            result.cancelled = true;
+            break;
+        }
+        evaluateBatchRange(batch, result, start, start + chunkSize, rateConstantsAt, parameters);
+        post({ type: 'progress', id, completed: result.completed, total: batch.length });
+        await new Promise(resolve => setTimeout(resolve, 0)); // Let a cancel message in
+    }
+    active.delete(id);
+    cancelled.delete(id);
+    post({ type: 'done', id, result }, Object.values(result.outputs).map(column => column!.buffer));
+}
+
+self.onmessage = (event: MessageEvent<BatchWorkerRequest>) => {
+    const request = event.data;
+    if (request.type === 'cancel') {
+        if (active.has(request.id)) cancelled.add(request.id);
+        return;
+    }
+    active.add(request.id);
+    run(request.id, request.batch, request.options, request.chunkSize ?? DEFAULT_CHUNK_SIZE).catch((e: unknown) => {
+        active.delete(request.id);
+        cancelled.delete(request.id);
+        post({ type: 'error', id: request.id, message: (e as Error).message });
+    });
+};
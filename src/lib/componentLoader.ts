@@ -0,0 +1,376 @@
+/**
+ * @file componentLoader.ts
+ *
+ * Reads pure-component data in the layout of the original Excel/CSV coefficient files
+ * into the component library (see 'componentData.ts'), and checks it.
+ *
+ * The data comes as two CSV tables, matched by the column names of their header line
+ * (other columns, e.g. a formula or CAS number, are ignored):
+ * - constants: one row per component (CONSTANT_COLUMNS); critical pressure in bar,
+ *   enthalpy of formation in J/mol;
+ * - coefficients: one row per property and temperature interval (COEFFICIENT_COLUMNS).
+ *   Properties must be in the catalog of 'propertyCatalog.ts' (names in any case) and
+ *   use one of the correlation types it allows for them.
+ *   A property valid over several intervals has one row per interval; a property
+ *   without T_min/T_max has a single row and is used at all temperatures. Empty or
+ *   absent coefficient columns are 0.
+ *
+ * Empty lines and lines starting with '#' are skipped. With ';' or tab separators a
+ * decimal comma is accepted. Problems are reported per line; a component with any
+ * error is left out of the library.
+ */
+import type { ComponentConstants, PropertyCoefficients, PureComponent } from './physicalProperties';
+import { calcFunction } from './propertyCorrelations';
+import { detectSeparator, splitCsvLine } from './csv';
+import { PROPERTY_CATALOG, parsePhysicalProperty, type PhysicalProperty, type PropertyResult } from './propertyCatalog';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * The CSV texts of one data set.
+ */
+export interface ComponentTables {
+    constants: string;
+    coefficients: string;
+}
+
+/**
+ * A problem found in the tables. Errors keep the component out of the library;
+ * warnings (e.g. a jump where two intervals meet) do not.
+ */
+export interface ComponentDataIssue {
+    severity: 'error' | 'warning';
+    table: keyof ComponentTables;
+    line: number;                       // Line in the CSV text (1-based)
+    component: string;                  // Empty when the line names no component
+    property?: string;
+    message: string;
+}
+
+/**
+ * Options of the loader. All fields are optional.
+ */
+export interface ComponentLoadOptions {
+    continuityTolerance?: number;       // Relative jump allowed where two intervals meet (default 0.01)
+}
+
+/**
+ * Result of reading the tables.
+ */
+export interface ComponentLoadResult {
+    components: PureComponent[];        // Components without errors, in the order of the constants table
+    issues: ComponentDataIssue[];
+}
+
+export const CORRELATION_TYPES: ReadonlyArray<PropertyCoefficients['correlation_type']> = ['Type1', 'Type2', 'Type3', 'Type4', 'Type5', 'Type6'];
+
+export const CONSTANT_COLUMNS = ['component', 'molecular_weight', 'critical_temperature', 'critical_pressure', 'acentric_factor', 'enthalpy_formation'] as const;
+
+export const COEFFICIENT_COLUMNS = ['component', 'property', 'correlation_type', 'T_min', 'T_max', 'coeff_0', 'coeff_1', 'coeff_2', 'coeff_3', 'coeff_4'] as const;
+
+/** One data line of a table, keyed by column name. */
+interface TableRow {
+    line: number;
+    values: Record<string, string>;
+}
+
+/** One coefficient row (one temperature interval of a property). */
+interface IntervalRow {
+    line: number;
+    type: PropertyCoefficients['correlation_type'];
+    T_min?: number;
+    T_max?: number;
+    coefficients: number[];
+}
+
+
+// ===================================================================================
+// 2. READING
+// ===================================================================================
+
+/**
+ * Reads pure components from constants and coefficient tables and checks them.
+ * @param tables The CSV texts.
+ * @param options The continuity tolerance.
+ * @returns The components that passed the checks, and all problems found.
+ */
+export function parseComponentTables(tables: ComponentTables, options: ComponentLoadOptions = {}): ComponentLoadResult {
+    const tolerance = options.continuityTolerance ?? 0.01;
+    const issues: ComponentDataIssue[] = [];
+    const failed = new Set<string>();
+    const report = (severity: ComponentDataIssue['severity'], table: keyof ComponentTables, line: number, component: string, message: string, property?: string) => {
+        issues.push({ severity, table, line, component, ...(property !== undefined && { property }), message });
+        if (severity === 'error') failed.add(component);
+    };
+
+    const constantRows = readTable(tables.constants, CONSTANT_COLUMNS, 'constants', issues, CONSTANT_COLUMNS.length);
+    const coefficientRows = readTable(tables.coefficients, COEFFICIENT_COLUMNS, 'coefficients', issues, 6);
+    if (!constantRows || !coefficientRows) return { components: [], issues };
+
+    // --- Constants: one row per component ---
+    const constants = new Map<string, { line: number; constants: ComponentConstants }>();
+    for (const row of constantRows) {
+        const name = row.values.component.toUpperCase();
+        const error = (message: string) => report('error', 'constants', row.line, name, message);
+        if (name === '') {
+            error('No component name.');
+            continue;
+        }
+        const first = constants.get(name);
+        if (first) {
+            error(`Component defined twice; first on line ${first.line}.`);
+            continue;
+        }
+        const value = (column: typeof CONSTANT_COLUMNS[number], positive: boolean): number => {
+            const v = parseNumber(row.values[column]);
+            if (v === undefined) {
+                error(`${column} is missing.`);
+                return NaN;
+            }
+            if (Number.isNaN(v)) error(`${column} is not a number: "${row.values[column]}".`);
+            else if (positive && v <= 0) error(`${column} must be positive, got ${v}.`);
+            return v;
+        };
+        constants.set(name, {
+            line: row.line,
+            constants: {
+                name,
+                molecular_weight: value('molecular_weight', true),
+                critical_temperature: value('critical_temperature', true),
+                critical_pressure: value('critical_pressure', true),
+                acentric_factor: value('acentric_factor', false),
+                enthalpy_formation: value('enthalpy_formation', false),
+            },
+        });
+    }
+
+    // --- Coefficients: one row per property and interval, grouped by component and property ---
+    const groups = new Map<string, Map<PhysicalProperty, IntervalRow[]>>();
+    for (const row of coefficientRows) {
+        const name = row.values.component.toUpperCase();
+        const error = (message: string) => report('error', 'coefficients', row.line, name, message, row.values.property);
+        if (name === '' || row.values.property === '') {
+            error('Component and property names are required.');
+            continue;
+        }
+        if (!constants.has(name)) {
+            error(`Component "${name}" is not in the constants table.`);
+            continue;
+        }
+        const property = parsePhysicalProperty(row.values.property);
+        if (!property) {
+            error(`Unknown property "${row.values.property}".`);
+            continue;
+        }
+        const type = parseCorrelationType(row.values.correlation_type);
+        if (!type) {
+            error(`Unknown correlation type "${row.values.correlation_type}"; expected Type1 to Type6.`);
+            continue;
+        }
+        const allowed = PROPERTY_CATALOG[property].correlationTypes;
+        if (!allowed.includes(type)) {
+            error(`${property} cannot use correlation type ${type}; expected ${allowed.join(' or ')}.`);
+            continue;
+        }
+        const T_min = parseNumber(row.values.T_min);
+        const T_max = parseNumber(row.values.T_max);
+        if ((T_min === undefined) !== (T_max === undefined)) {
+            error('Give both T_min and T_max, or neither.');
+            continue;
+        }
+        if (T_min !== undefined && T_max !== undefined && !(T_min > 0 && T_max > T_min)) {
+            error(`Invalid temperature interval ${row.values.T_min} to ${row.values.T_max} K.`);
+            continue;
+        }
+        const coefficients = COEFFICIENT_COLUMNS.slice(5).map(column => parseNumber(row.values[column]) ?? 0);
+        const bad = coefficients.findIndex(Number.isNaN);
+        if (bad !== -1) {
+            error(`coeff_${bad} is not a number: "${row.values[`coeff_${bad}`]}".`);
+            continue;
+        }
+        const properties = groups.get(name) ?? new Map<PhysicalProperty, IntervalRow[]>();
+        groups.set(name, properties);
+        properties.set(property, [...(properties.get(property) ?? []), { line: row.line, type, T_min, T_max, coefficients }]);
+    }
+
+    // --- Build the components and check the intervals of every property ---
+    const components: PureComponent[] = [];
+    for (const [name, { constants: componentConstants }] of constants) {
+        const properties = new Map<PhysicalProperty, PropertyCoefficients>();
+        for (const [property, rows] of groups.get(name) ?? []) {
+            const coefficients = buildProperty(property, rows, componentConstants, tolerance,
+                (severity, line, message) => report(severity, 'coefficients', line, name, message, property));
+            if (coefficients) properties.set(property, coefficients);
+        }
+        if (!failed.has(name)) {
+            components.push({ constants: componentConstants, properties, calculated_properties: new Map<PhysicalProperty, PropertyResult>() });
+        }
+    }
+    issues.sort((a, b) => (a.table === b.table ? a.line - b.line : a.table === 'constants' ? -1 : 1));
+    return { components, issues };
+}
+
+/**
+ * Reads the tables and adds the components without errors to a library, replacing
+ * components of the same name.
+ * @param tables The CSV texts.
+ * @param library The library to fill, normally `componentLibrary`.
+ * @param options The continuity tolerance.
+ * @returns The components added, and all problems found.
+ */
+export function loadComponentTables(tables: ComponentTables, library: Map<string, PureComponent>, options: ComponentLoadOptions = {}): ComponentLoadResult {
+    const result = parseComponentTables(tables, options);
+    for (const component of result.components) {
+        library.set(component.constants.name, component);
+    }
+    return result;
+}
+
+/**
+ * Formats an issue as one line of text, e.g. for a log or an error message.
+ */
+export function formatComponentDataIssue(issue: ComponentDataIssue): string {
+    const subject = [issue.component, issue.property].filter(Boolean).join(', ');
+    return `${issue.table} line ${issue.line}: ${issue.severity}: ${subject ? `${subject}: ` : ''}${issue.message}`;
+}
+
+/**
+ * Splits a table into rows keyed by column name; columns beyond the first `required`
+ * may be left out of the header (their fields are empty).
+ * @returns The rows, or null if the table is empty or lacks a required column.
+ */
+function readTable(text: string, columns: readonly string[], table: keyof ComponentTables, issues: ComponentDataIssue[], required: number): TableRow[] | null {
+    const lines = text.split(/\r?\n/)
+        .map((content, i) => ({ content, line: i + 1 }))
+        .filter(({ content }) => content.trim() !== '' && !content.trimStart().startsWith('#'));
+    if (lines.length === 0) {
+        issues.push({ severity: 'error', table, line: 0, component: '', message: 'The table is empty.' });
+        return null;
+    }
+    const separator = detectSeparator(lines[0].content);
+    const header = splitCsvLine(lines[0].content, separator).map(h => h.toLowerCase());
+    const missing = columns.slice(0, required).filter(c => !header.includes(c.toLowerCase()));
+    if (missing.length > 0) {
+        issues.push({ severity: 'error', table, line: lines[0].line, component: '', message: `Missing column(s): ${missing.join(', ')}.` });
+        return null;
+    }
+
+    const rows: TableRow[] = [];
+    for (const { content, line } of lines.slice(1)) {
+        const fields = splitCsvLine(content, separator);
+        if (fields.length > header.length) {
+            issues.push({ severity: 'error', table, line, component: fields[0] ?? '', message: `${fields.length} fields for ${header.length} columns.` });
+            continue;
+        }
+        // Trailing empty fields may be left out, as spreadsheet exports often do
+        const values: Record<string, string> = {};
+        for (const column of columns) {
+            const index = header.indexOf(column.toLowerCase());
+            const value = index === -1 ? '' : fields[index] ?? '';
+            values[column] = separator === ',' ? value : value.replace(',', '.');
+        }
+        rows.push({ line, values });
+    }
+    return rows;
+}
+
+/** Parses a number; undefined for an empty field, NaN for text that is not a number. */
+function parseNumber(text: string): number | undefined {
+    return text === '' ? undefined : Number(text);
+}
+
+/** Accepts 'Type1' to 'Type6' in any case, or the bare number. */
+function parseCorrelationType(text: string): PropertyCoefficients['correlation_type'] | null {
+    const type = /^\d$/.test(text) ? `Type${text}` : text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+    return CORRELATION_TYPES.find(t => t === type) ?? null;
+}
+
+
+// ===================================================================================
+// 3. INTERVAL CHECKS
+// ===================================================================================
+
+/**
+ * Combines the rows of one property into its coefficients, checking that the
+ * intervals share one correlation type, leave no gap and join continuously.
+ * @returns The coefficients, or null if the rows contradict each other.
+ */
+function buildProperty(
+    property: PhysicalProperty,
+    rows: IntervalRow[],
+    constants: ComponentConstants,
+    tolerance: number,
+    report: (severity: ComponentDataIssue['severity'], line: number, message: string) => void,
+): PropertyCoefficients | null {
+    const type = rows[0].type;
+    let consistent = true;
+    for (const row of rows.slice(1)) {
+        if (row.type !== type) {
+            report('error', row.line, `Correlation type ${row.type} differs from ${type} on line ${rows[0].line}.`);
+            consistent = false;
+        }
+    }
+    const hasIntervals = rows[0].T_min !== undefined;
+    if (rows.length > 1 && rows.some(row => row.T_min === undefined)) {
+        for (const row of rows.filter(r => r.T_min === undefined)) {
+            report('error', row.line, 'A property with several rows needs T_min and T_max on every row.');
+        }
+        consistent = false;
+    }
+    if (!consistent) return null;
+
+    const sorted = [...rows].sort((a, b) => a.T_min! - b.T_min!);
+    const coefficients: PropertyCoefficients = {
+        property_name: property,
+        correlation_type: type,
+        has_intervals: hasIntervals,
+        ...(hasIntervals && {
+            interval_count: sorted.length,
+            T_min: sorted.map(row => row.T_min!),
+            T_max: sorted.map(row => row.T_max!),
+        }),
+        coeff_0: sorted.map(row => row.coefficients[0]),
+        coeff_1: sorted.map(row => row.coefficients[1]),
+        coeff_2: sorted.map(row => row.coefficients[2]),
+        coeff_3: sorted.map(row => row.coefficients[3]),
+        coeff_4: sorted.map(row => row.coefficients[4]),
+    };
+    if (!hasIntervals || !(constants.critical_temperature > 0)) return coefficients;
+
+    // Every interval must give finite values at its ends
+    const evaluate = (T: number, index: number) =>
+        calcFunction(type, T, T / constants.critical_temperature, coefficients, index, constants.enthalpy_formation);
+    let finite = true;
+    sorted.forEach((row, i) => {
+        for (const T of [row.T_min!, row.T_max!]) {
+            if (!Number.isFinite(evaluate(T, i))) {
+                report('error', row.line, `The correlation is not finite at ${T} K.`);
+                finite = false;
+            }
+        }
+    });
+    if (!finite) return coefficients;
+
+    // Neighbouring intervals: no gap, and the same value where one takes over from the other
+    for (let i = 1; i < sorted.length; i++) {
+        const [previous, next] = [sorted[i - 1], sorted[i]];
+        if (next.T_min! > previous.T_max!) {
+            report('error', next.line, `No correlation between ${previous.T_max} K (line ${previous.line}) and ${next.T_min} K.`);
+            continue;
+        }
+        if (next.T_min! < previous.T_max!) {
+            report('warning', next.line, `Overlaps the interval of line ${previous.line} up to ${previous.T_max} K, where that interval is used.`);
+        }
+        // The interval starting lower is used up to its T_max, the next one beyond
+        const T = Math.min(previous.T_max!, next.T_max!);
+        const [below, above] = [evaluate(T, i - 1), evaluate(T, i)];
+        const jump = Math.abs(above - below) / Math.max(Math.abs(below), Math.abs(above), Number.MIN_VALUE);
+        if (jump > tolerance) {
+            report('warning', next.line,
+                `Not continuous at ${T} K: ${below.toPrecision(5)} (line ${previous.line}) vs ${above.toPrecision(5)} (${(jump * 100).toFixed(1)}% jump).`);
+        }
+    }
+    return coefficients;
+}
@@ -0,0 +1,62 @@
+/**
+ * @file componentTables.ts
+ *
+ * The built-in component data, in the CSV layout of the original Excel coefficient
+ * files (read by 'componentLoader.ts' into the library of 'componentData.ts').
+ *
+ * Units follow the DIPPR conventions of the original files: heat capacity in J/kmol/K,
+ * viscosity in Pa·s, vapor pressure in Pa, temperatures in K, critical pressure in bar
+ * and enthalpy of formation (ideal gas, 298.15 K) in J/mol.
+ * Type4 heat capacities are the DIPPR 107 equation (Aly-Lee form).
+ */
+
+/** Constants of every component tracked by `ZieglerModelOutputs`, except propane and butene. */
+export const COMPONENT_CONSTANTS_CSV = `
+component,molecular_weight,critical_temperature,critical_pressure,acentric_factor,enthalpy_formation
+ETHYLENE,28.054,282.35,50.40,0.087,52467
+1-HEXENE,84.161,504.0,31.10,0.281,-41160
+HYDROGEN,2.016,33.19,13.13,-0.216,0
+NITROGEN,28.014,126.20,33.98,0.037,0
+ISOBUTANE,58.122,407.80,36.40,0.184,-134990
+ETHANE,30.069,305.32,48.72,0.099,-83820
+N-HEXANE,86.175,507.60,30.25,0.301,-166920
+WATER,18.015,647.10,220.64,0.345,-241818
+CARBON MONOXIDE,28.010,132.92,34.99,0.048,-110530
+METHANE,16.043,190.56,45.99,0.011,-74520
+`;
+
+/**
+ * Correlation coefficients, one row per property and temperature interval.
+ * Vapor pressures (Type2, DIPPR 101) run from the triple point to the critical point;
+ * the 1-hexene coefficients are fitted to its Antoine equation (257-337 K) and critical point.
+ * The ethylene liquid viscosity of the original file is limited to the liquid, from the triple
+ * point to the critical point.
+ * Note: the two ethylene heat capacity intervals of the original file do not join at
+ * 500 K; the loader reports this as a warning.
+ */
+export const COMPONENT_COEFFICIENTS_CSV = `
+component,property,correlation_type,T_min,T_max,coeff_0,coeff_1,coeff_2,coeff_3,coeff_4
+ETHYLENE,Vapor heat capacity,Type1,200,500,1.424e+4,7.550e+1,-1.800e-2,0,0
+ETHYLENE,Vapor heat capacity,Type1,500,1500,5.869e+4,-6.650e+1,2.370e-1,-1.280e-4,2.530e-8
+ETHYLENE,Liquid viscosity,Type2,104,282.34,-6.4013,183.56,0,0.019,1
+ETHYLENE,Vapor pressure,Type2,104,282.34,53.963,-2.4430e+3,-5.5643,1.9079e-5,2
+1-HEXENE,Vapor heat capacity,Type1,,,2.579e+4,3.332e+2,-8.470e-2,-2.180e-5,0
+1-HEXENE,Vapor pressure,Type2,200,504,83.105,-6.0935e+3,-9.3547,8.4497e-6,2
+HYDROGEN,Vapor heat capacity,Type4,250,1500,2.7617e+4,9.560e+3,2.466e+3,3.760e+3,5.676e+2
+HYDROGEN,Vapor pressure,Type2,13.95,33.19,12.690,-94.896,1.1125,3.2915e-4,2
+NITROGEN,Vapor heat capacity,Type4,50,1500,2.9105e+4,8.6149e+3,1.7016e+3,1.0300e+2,9.0979e+2
+NITROGEN,Vapor pressure,Type2,63.15,126.2,58.282,-1.0841e+3,-8.3144,4.4127e-2,1
+ISOBUTANE,Vapor heat capacity,Type4,200,1500,6.5490e+4,2.4776e+5,1.5870e+3,1.5750e+5,-7.0699e+2
+ISOBUTANE,Vapor pressure,Type2,113.54,407.8,108.43,-5.0399e+3,-15.012,2.2725e-2,1
+ETHANE,Vapor heat capacity,Type4,200,1500,4.0326e+4,1.3422e+5,1.6555e+3,7.3223e+4,7.5287e+2
+ETHANE,Vapor pressure,Type2,90.35,305.32,51.857,-2.5987e+3,-5.1283,1.4913e-5,2
+N-HEXANE,Vapor heat capacity,Type4,200,1500,1.0440e+5,3.5230e+5,1.6946e+3,2.3690e+5,7.6160e+2
+N-HEXANE,Vapor pressure,Type2,177.83,507.6,104.65,-6.9955e+3,-12.702,1.2381e-5,2
+WATER,Vapor heat capacity,Type4,100,2273,3.3363e+4,2.6790e+4,2.6105e+3,8.8960e+3,1.1690e+3
+WATER,Liquid viscosity,Type2,273.16,646.15,-52.843,3.7036e+3,5.866,-5.879e-29,10
+WATER,Vapor pressure,Type2,273.16,647.1,73.649,-7.2582e+3,-7.3037,4.1653e-6,2
+CARBON MONOXIDE,Vapor heat capacity,Type4,60,1500,2.9108e+4,8.7730e+3,3.0851e+3,8.4553e+3,1.5382e+3
+CARBON MONOXIDE,Vapor pressure,Type2,68.15,132.92,45.698,-1.0766e+3,-4.8814,7.5673e-5,2
+METHANE,Vapor heat capacity,Type4,50,1500,3.3298e+4,7.9933e+4,2.0869e+3,4.1602e+4,9.9196e+2
+METHANE,Vapor pressure,Type2,90.69,190.56,39.205,-1.3244e+3,-3.4366,3.1019e-5,2
+`;
@@ -0,0 +1,197 @@
+/**
+ * @file copolymerComposition.ts
+ *
+ * Composition of the ethylene/1-hexene copolymer being made, from the terminal-model
+ * propagation constants of each site type:
+ *
+ * - reactivity ratios r1 = kp11/kp12 and r2 = kp22/kp21,
+ * - instantaneous hexene incorporation (Mayo-Lewis equation) in mol% and wt%,
+ * - number-average ethylene and hexene sequence lengths,
+ * - short-chain branches (butyl branches from hexene) per 1000 carbon atoms,
+ * - the hexene/ethylene concentration ratio needed for a target incorporation.
+ *
+ * End-group fractions are taken at their quasi-steady state, as in the Mayo-Lewis derivation.
+ * Only propagation is considered: monomer consumed by initiation and transfer is left out,
+ * so the incorporation differs slightly from the hexene content that follows from the
+ * segment rates of 'zieglerModel.ts' (see 'predictQuantity' in 'parameterEstimation.ts').
+ */
+import type { ZieglerModelInputs } from './zieglerModel';
+import { calculateRateConstants, defaultKineticParameters, type KineticParameterSet } from './kineticParameters';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * Reactivity ratios of one site type.
+ */
+export interface ReactivityRatios {
+    r1: number;                         // kp11 / kp12 (ethylene-ended chain)
+    r2: number;                         // kp22 / kp21 (hexene-ended chain)
+}
+
+/**
+ * Composition of the copolymer made on one site type.
+ */
+export interface SiteComposition {
+    reactivityRatios: ReactivityRatios;
+    hexeneMolPercent: number;           // mol% hexene in the polymer
+    hexeneWeightPercent: number;        // wt% hexene in the polymer
+    ethyleneSequenceLength: number;     // Number-average run of consecutive ethylene units
+    hexeneSequenceLength: number;       // Number-average run of consecutive hexene units
+    branchesPer1000C: number;           // Butyl branches per 1000 carbon atoms
+    propagationRate: number;            // Monomer incorporated on this site (mol/L/h)
+}
+
+/**
+ * Composition of the copolymer per site type and for the whole product.
+ */
+export interface CopolymerComposition {
+    feedRatio: number;                  // [M2]/[M1] in the reactor
+    sites: SiteComposition[];           // Index 0 = site type 1, index 1 = site type 2
+    combined: {
+        hexeneMolPercent: number;
+        hexeneWeightPercent: number;
+        branchesPer1000C: number;
+    };
+}
+
+// Molecular weights of the monomer units, identical to those used in zieglerModel.ts
+const MC2 = 28; // Ethylene (g/mol)
+const MC6 = 84; // 1-Hexene (g/mol)
+
+
+// ===================================================================================
+// 2. COMPOSITION
+// ===================================================================================
+
+/**
+ * Reactivity ratios of both site types at a temperature.
+ * @param T The temperature in Kelvin.
+ * @param parameters The kinetic parameter set.
+ */
+export function reactivityRatios(T: number, parameters: KineticParameterSet = defaultKineticParameters): ReactivityRatios[] {
+    const k = calculateRateConstants(T, parameters);
+    return [
+        { r1: k.kp11_1 / k.kp12_1, r2: k.kp22_1 / k.kp21_1 },
+        { r1: k.kp11_2 / k.kp12_2, r2: k.kp22_2 / k.kp21_2 },
+    ];
+}
+
+/**
+ * Instantaneous composition of the copolymer at the reactor conditions.
+ * Sites are combined in proportion to their propagation rates, which follow from
+ * the living chain concentrations Y0 of the inputs.
+ * @param inputs The model inputs (monomer concentrations, temperature, living chains).
+ * @param parameters The kinetic parameter set.
+ */
+export function copolymerComposition(inputs: ZieglerModelInputs, parameters: KineticParameterSet = defaultKineticParameters): CopolymerComposition {
+    const M1 = inputs.ethylene;
+    const M2 = inputs.hexene;
+    const k = calculateRateConstants(inputs.temperature, parameters);
+    const siteConstants = [
+        { kp11: k.kp11_1, kp12: k.kp12_1, kp21: k.kp21_1, kp22: k.kp22_1, Y0: inputs.livingPolymerMoment0_y0_1 },
+        { kp11: k.kp11_2, kp12: k.kp12_2, kp21: k.kp21_2, kp22: k.kp22_2, Y0: inputs.livingPolymerMoment0_y0_2 },
+    ];
+
+    const sites = siteConstants.map(({ kp11, kp12, kp21, kp22, Y0 }): SiteComposition => {
+        // Quasi-steady state of the chain ends: kp12 * phi1 * M2 = kp21 * phi2 * M1
+        const crossover = kp21 * M1 + kp12 * M2;
+        const phi1 = crossover > 0 ? (kp21 * M1) / crossover : NaN;
+        const phi2 = 1 - phi1;
+        const ethyleneRate = Y0 * M1 * (kp11 * phi1 + kp21 * phi2);
+        const hexeneRate = Y0 * M2 * (kp12 * phi1 + kp22 * phi2);
+        const F2 = mayoLewis(kp11 / kp12, kp22 / kp21, M1, M2);
+        return {
+            reactivityRatios: { r1: kp11 / kp12, r2: kp22 / kp21 },
+            ...compositionMeasures(F2),
+            ethyleneSequenceLength: 1 + (kp11 / kp12) * (M1 / M2),
+            hexeneSequenceLength: 1 + (kp22 / kp21) * (M2 / M1),
+            propagationRate: ethyleneRate + hexeneRate,
+        };
+    });
+
+    // Combine the sites weighted by the monomer they incorporate
+    const weights = sites.map(s => (Number.isFinite(s.propagationRate) && s.propagationRate > 0 ? s.propagationRate : 0));
+    const totalWeight = weights.reduce((a, b) => a + b, 0);
+    const F2 = totalWeight > 0
+        ? sites.reduce((sum, s, j) => sum + (weights[j] > 0 ? weights[j] * s.hexeneMolPercent / 100 : 0), 0) / totalWeight
+        : NaN;
+    const { hexeneMolPercent, hexeneWeightPercent, branchesPer1000C } = compositionMeasures(F2);
+
+    return {
+        feedRatio: M2 / M1,
+        sites,
+        combined: { hexeneMolPercent, hexeneWeightPercent, branchesPer1000C },
+    };
+}
+
+/**
+ * Mayo-Lewis equation: mol fraction of monomer 2 in the copolymer formed.
+ */
+export function mayoLewis(r1: number, r2: number, M1: number, M2: number): number {
+    const numerator = r2 * M2 * M2 + M1 * M2;
+    const denominator = r1 * M1 * M1 + 2 * M1 * M2 + r2 * M2 * M2;
+    return denominator > 0 ? numerator / denominator : NaN;
+}
+
+/**
+ * Converts a hexene mol fraction into mol%, wt% and branches per 1000 C.
+ * Each hexene unit carries one butyl branch; carbon atoms: 2 per ethylene and 6 per hexene unit.
+ */
+function compositionMeasures(F2: number) {
+    const F1 = 1 - F2;
+    return {
+        hexeneMolPercent: 100 * F2,
+        hexeneWeightPercent: (100 * F2 * MC6) / (F1 * MC2 + F2 * MC6),
+        branchesPer1000C: (1000 * F2) / (2 * F1 + 6 * F2),
+    };
+}
+
+
+// ===================================================================================
+// 3. INVERSE PROBLEM
+// ===================================================================================
+
+/**
+ * Finds the hexene/ethylene concentration ratio [M2]/[M1] that gives a target hexene
+ * incorporation, keeping the ethylene concentration and all other inputs fixed.
+ * @param targetMolPercent Target hexene content of the polymer (mol%).
+ * @param inputs The operating point.
+ * @param parameters The kinetic parameter set.
+ * @param site Optional site type (1 or 2) to match instead of the combined product.
+ * @returns The ratio [M2]/[M1].
+ * @throws Error if the target cannot be reached within ratios of 1e-8 to 1e4.
+ */
+export function feedRatioForIncorporation(
+    targetMolPercent: number,
+    inputs: ZieglerModelInputs,
+    parameters: KineticParameterSet = defaultKineticParameters,
+    site?: 1 | 2,
+): number {
+    if (!(inputs.ethylene > 0)) {
+        throw new Error('An ethylene concentration above zero is required.');
+    }
+    const incorporation = (logRatio: number) => {
+        const composition = copolymerComposition({ ...inputs, hexene: inputs.ethylene * Math.exp(logRatio) }, parameters);
+        return site ? composition.sites[site - 1].hexeneMolPercent : composition.combined.hexeneMolPercent;
+    };
+
+    // Bisection on ln([M2]/[M1]); the incorporation increases with the ratio
+    let low = Math.log(1e-8);
+    let high = Math.log(1e4);
+    const fLow = incorporation(low) - targetMolPercent;
+    const fHigh = incorporation(high) - targetMolPercent;
+    if (!(fLow <= 0 && fHigh >= 0)) {
+        throw new Error(`A hexene content of ${targetMolPercent} mol% cannot be reached (range ${incorporation(low).toPrecision(3)} to ${incorporation(high).toPrecision(3)} mol%).`);
+    }
+    for (let i = 0; i < 100 && high - low > 1e-12; i++) {
+        const mid = 0.5 * (low + high);
+        if (incorporation(mid) < targetMolPercent) {
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+    return Math.exp(0.5 * (low + high));
+}
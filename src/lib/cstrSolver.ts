@@ -0,0 +1,334 @@
+/**
+ * @file cstrSolver.ts
+ *
+ * Steady-state solver for the loop reactor operated as a continuous stirred tank (CSTR).
+ * Fresh feeds of monomers, hydrogen, catalyst and cocatalyst enter the reactor and the
+ * contents leave with the outlet flow. The steady state is the point where the reaction
+ * rates from `calculateReactionRates` balance the in- and outflows of every species:
+ *
+ *     0 = F_in / V - C / tau + R(C) / V
+ */
+import { calculateReactionRates, type ZieglerModelOutputs } from './zieglerModel';
+import { defaultKineticParameters, type KineticParameterSet } from './kineticParameters';
+import { luDecompose, luSolve, numericalJacobian, type Vector } from './linearAlgebra';
+import { integrateStiff } from './odeSolver';
+import {
+    STATE_VARIABLES,
+    flowsToVector,
+    stateToVector,
+    vectorToFlows,
+    vectorToState,
+    type ReactorState,
+    type StreamFlows,
+} from './reactorState';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * Fresh feed of the reactor in mol/h. Any other state variable (e.g. living polymer
+ * coming from an upstream reactor) may be given as well.
+ */
+export interface CstrFeed extends StreamFlows {
+    ethylene: number;   // M1 feed (mol/h)
+    hexene: number;     // M2 feed (mol/h)
+    hydrogen: number;   // H2 feed (mol/h)
+    catalyst: number;   // S feed (mol/h)
+    cocatalyst: number; // c feed (mol/h)
+}
+
+/**
+ * Operating conditions of the CSTR. Give either `outletFlow` or `residenceTime`.
+ */
+export interface CstrConfiguration {
+    volume: number;         // V: Reactor volume (liters)
+    temperature: number;    // T: Reactor temperature (Kelvin)
+    reactorFlag: number;    // Selects the reactor for the 'eth' constant
+    feed: CstrFeed;
+    outletFlow?: number;    // Volumetric outlet flow (liters/hour)
+    residenceTime?: number; // tau = V / outletFlow (hours)
+    kineticParameters?: KineticParameterSet; // Default: the original model constants
+}
+
+/**
+ * Numerical options of the steady-state solver. All fields are optional.
+ */
+export interface CstrSolverOptions {
+    tolerance?: number;              // Scaled residual tolerance (default 1e-9)
+    maxIterations?: number;          // Newton iterations per initial guess (default 100)
+    initialGuesses?: ReactorState[]; // Extra starting points, e.g. a previous solution
+    relaxationTime?: number;         // Pseudo-transient integration before Newton, in residence times (default 30)
+}
+
+/**
+ * Polymer moment concentrations (moles/liter) at steady state, per site type.
+ */
+export interface CstrPolymerMoments {
+    living: [number, number, number][]; // [Y0, Y1, Y2] for site 1 and site 2
+    dead: [number, number, number][];   // [X0, X1, X2] for site 1 and site 2
+}
+
+/**
+ * A steady state of the reactor.
+ */
+export interface CstrSteadyState {
+    state: ReactorState;            // Steady-state concentrations
+    outputs: ZieglerModelOutputs;   // Reaction rates at the steady state
+    outlet: Required<StreamFlows>;  // Outlet molar flows (mol/h)
+    polymerProductionRate: number;  // g/h
+    polymerMoments: CstrPolymerMoments;
+    outletFlow: number;             // liters/hour
+    residenceTime: number;          // hours
+    residualNorm: number;           // Largest balance residual relative to the terms it balances
+    iterations: number;             // Newton iterations used
+}
+
+/**
+ * Result of the steady-state search.
+ */
+export interface CstrResult {
+    converged: boolean;
+    solution: CstrSteadyState | null;   // The first converged steady state (or null)
+    solutions: CstrSteadyState[];       // All distinct converged steady states
+    multipleSolutions: boolean;         // More than one distinct steady state was found
+    message: string;
+}
+
+
+// ===================================================================================
+// 2. MAIN SOLVER
+// ===================================================================================
+
+/**
+ * Finds the steady state(s) of the CSTR by damped Newton iterations from several starting points.
+ * @param config Reactor volume, temperature, feeds and outlet flow.
+ * @param options Solver tolerances and optional starting points.
+ * @returns The steady state(s) together with convergence flags.
+ */
+export function solveCstrSteadyState(config: CstrConfiguration, options: CstrSolverOptions = {}): CstrResult {
+    const { volume: V } = config;
+    if (!(V > 0)) {
+        throw new Error(`Reactor volume must be positive, got ${V}.`);
+    }
+    const outletFlow = config.outletFlow ?? (config.residenceTime !== undefined ? V / config.residenceTime : NaN);
+    if (!(outletFlow > 0) || !Number.isFinite(outletFlow)) {
+        throw new Error('A positive outletFlow or residenceTime is required.');
+    }
+    for (const [species, flow] of Object.entries(config.feed)) {
+        if (!(flow >= 0)) {
+            throw new Error(`Feed flow of "${species}" must be non-negative, got ${flow}.`);
+        }
+    }
+
+    const tau = V / outletFlow;
+    const tolerance = options.tolerance ?? 1e-9;
+    const maxIterations = options.maxIterations ?? 100;
+    const inflow = flowsToVector(config.feed);
+    const parameters = config.kineticParameters ?? defaultKineticParameters;
+
+    // vectorToState fills in every state variable, only the fixed parameters are needed here
+    const template = vectorToState(new Array(STATE_VARIABLES.length).fill(0), {
+        volume: V,
+        temperature: config.temperature,
+        reactorFlag: config.reactorFlag,
+    } as ReactorState);
+
+    const balance = (x: Vector): { residual: Vector; scale: Vector } => {
+        const outputs = calculateReactionRates(vectorToState(x, template), parameters);
+        const residual: Vector = [];
+        const scale: Vector = [];
+        STATE_VARIABLES.forEach(({ rate }, i) => {
+            const inTerm = inflow[i] / V;
+            const outTerm = x[i] / tau;
+            const reactionTerm = outputs[rate] / V;
+            residual.push(inTerm - outTerm + reactionTerm);
+            // Sum of magnitudes: a residual is small relative to the terms it balances
+            scale.push(Math.abs(inTerm) + Math.abs(outTerm) + Math.abs(reactionTerm) + ABSOLUTE_FLOOR / tau);
+        });
+        return { residual, scale };
+    };
+
+    // --- Starting points ---
+    // Washout state: the feed diluted in the reactor without any reaction
+    const washout = inflow.map(f => (f * tau) / V);
+    const starts: Vector[] = [washout];
+
+    // Pseudo-transient continuation: relax the dynamic CSTR towards its steady state
+    const relaxationHorizon = (options.relaxationTime ?? 30) * tau;
+    if (relaxationHorizon > 0) {
+        const relaxed = integrateStiff((_t, x) => balance(x).residual, 0, washout, [relaxationHorizon], {
+            relativeTolerance: 1e-6,
+            absoluteTolerance: 1e-14,
+            nonNegative: true,
+        });
+        if (relaxed.values.length > 1) {
+            starts.unshift(relaxed.values[relaxed.values.length - 1]);
+        }
+    }
+    for (const guess of options.initialGuesses ?? []) {
+        starts.unshift(stateToVector(guess));
+    }
+
+    // --- Newton iterations from every starting point ---
+    const converged: NewtonResult[] = [];
+    let best: NewtonResult | null = null;
+
+    for (const start of starts) {
+        const attempt = newtonSolve(balance, start, tolerance, maxIterations);
+        if (!best || attempt.residualNorm < best.residualNorm) {
+            best = attempt;
+        }
+        if (attempt.converged && !converged.some(c => sameSolution(c.x, attempt.x))) {
+            converged.push(attempt);
+        }
+    }
+
+    const build = (entry: NewtonResult): CstrSteadyState => {
+        const state = vectorToState(entry.x, template);
+        const outputs = calculateReactionRates(state, parameters);
+        return {
+            state,
+            outputs,
+            outlet: vectorToFlows(entry.x.map(c => c * outletFlow)),
+            polymerProductionRate: outputs.polymerProductionRate,
+            polymerMoments: {
+                living: [
+                    [state.livingPolymerMoment0_y0_1, state.livingPolymerMoment1_y1_1, state.livingPolymerMoment2_y2_1],
+                    [state.livingPolymerMoment0_y0_2, state.livingPolymerMoment1_y1_2, state.livingPolymerMoment2_y2_2],
+                ],
+                dead: [
+                    [state.deadPolymerMoment0_x0_1, state.deadPolymerMoment1_x1_1, state.deadPolymerMoment2_x2_1],
+                    [state.deadPolymerMoment0_x0_2, state.deadPolymerMoment1_x1_2, state.deadPolymerMoment2_x2_2],
+                ],
+            },
+            outletFlow,
+            residenceTime: tau,
+            residualNorm: entry.residualNorm,
+            iterations: entry.iterations,
+        };
+    };
+
+    const solutions = converged.map(build);
+    if (solutions.length === 0) {
+        return {
+            converged: false,
+            solution: null,
+            solutions: [],
+            multipleSolutions: false,
+            message: `Newton iterations did not converge (best scaled residual ${best ? best.residualNorm.toExponential(3) : 'N/A'}).`,
+        };
+    }
+
+    return {
+        converged: true,
+        solution: solutions[0],
+        solutions,
+        multipleSolutions: solutions.length > 1,
+        message: solutions.length > 1
+            ? `Found ${solutions.length} distinct steady states.`
+            : 'Converged to a single steady state.',
+    };
+}
+
+
+// ===================================================================================
+// 3. NEWTON ITERATION
+// ===================================================================================
+
+const ABSOLUTE_FLOOR = 1e-15; // moles/liter below which concentrations are considered zero
+
+type BalanceFunction = (x: Vector) => { residual: Vector; scale: Vector };
+
+interface NewtonResult {
+    x: Vector;
+    converged: boolean;
+    residualNorm: number;
+    iterations: number;
+}
+
+/**
+ * Damped Newton method with row and column scaling. Steps are limited so that
+ * concentrations stay non-negative, and halved until the scaled residual decreases.
+ * Converges only when every residual is below the tolerance relative to the terms it
+ * balances. These include the consumption of the species by its own reactions,
+ * |dg_i/dx_i| x_i: trace species with large, cancelling reaction terms (e.g. sites
+ * activated and consumed within a fraction of a second) cannot be resolved beyond the
+ * rounding error of those terms. Iterations stop without convergence when the Newton
+ * correction becomes negligible while the residual is still above the tolerance.
+ */
+function newtonSolve(balance: BalanceFunction, start: Vector, tolerance: number, maxIterations: number): NewtonResult {
+    let x = start.map(v => Math.max(v, 0));
+    let { residual, scale } = balance(x);
+    let norm = scaledNorm(residual, scale);
+    let residualNorm = norm;
+    let converged = norm <= tolerance;
+    let iterations = 0;
+
+    while (!converged) {
+        const columnScale = x.map(v => Math.max(Math.abs(v), ABSOLUTE_FLOOR));
+        const J = numericalJacobian(v => balance(v).residual, x, residual, columnScale);
+        residualNorm = scaledNorm(residual, scale.map((s, i) => s + Math.abs(J[i][i] * x[i])));
+        converged = residualNorm <= tolerance;
+        if (converged || iterations >= maxIterations) break;
+        iterations++;
+
+        // Solve (Dr J Dc) dz = -Dr g, then dx = Dc dz
+        let step: Vector;
+        try {
+            const scaledJ = J.map((row, i) => row.map((v, j) => (v * columnScale[j]) / scale[i]));
+            const dz = luSolve(luDecompose(scaledJ), residual.map((g, i) => -g / scale[i]));
+            step = dz.map((v, j) => v * columnScale[j]);
+        } catch {
+            break; // Singular Jacobian: give up on this starting point
+        }
+
+        // Stagnation: the residual cannot be reduced further
+        const relativeStep = Math.max(...step.map((dx, i) => Math.abs(dx) / (Math.abs(x[i]) + ABSOLUTE_FLOOR)));
+        if (relativeStep <= tolerance) break;
+
+        // Fraction-to-boundary rule keeps all concentrations non-negative
+        let lambda = 1;
+        step.forEach((dx, i) => {
+            if (dx < 0 && x[i] + dx < 0) {
+                lambda = Math.min(lambda, (0.99 * x[i]) / -dx);
+            }
+        });
+
+        // Backtracking line search on the scaled residual
+        let accepted = false;
+        for (let k = 0; k < 30; k++) {
+            const candidate = x.map((v, i) => Math.max(v + lambda * step[i], 0));
+            const evaluation = balance(candidate);
+            const candidateNorm = scaledNorm(evaluation.residual, evaluation.scale);
+            if (Number.isFinite(candidateNorm) && candidateNorm < norm) {
+                x = candidate;
+                residual = evaluation.residual;
+                scale = evaluation.scale;
+                norm = candidateNorm;
+                accepted = true;
+                break;
+            }
+            lambda *= 0.5;
+        }
+        if (!accepted) break;
+    }
+
+    return { x, converged, residualNorm, iterations };
+}
+
+function scaledNorm(residual: Vector, scale: Vector): number {
+    let norm = 0;
+    for (let i = 0; i < residual.length; i++) {
+        norm = Math.max(norm, Math.abs(residual[i]) / scale[i]);
+    }
+    return norm;
+}
+
+/**
+ * Two solutions are the same if every concentration agrees to a relative 1e-4
+ * (concentrations below the absolute floor are treated as equal).
+ */
+function sameSolution(a: Vector, b: Vector): boolean {
+    return a.every((v, i) => Math.abs(v - b[i]) <= 1e-4 * Math.max(Math.abs(v), Math.abs(b[i])) + 1e3 * ABSOLUTE_FLOOR);
+}
@@ -0,0 +1,46 @@
+/**
+ * @file csv.ts
+ *
+ * Minimal CSV reading shared by the file formats of the app (scenario files, component
+ * coefficient tables). Fields are separated by commas, semicolons or tabs and may be
+ * double-quoted; a doubled quote inside a quoted field stands for one quote.
+ */
+
+/**
+ * Picks the field separator of a file from its header line.
+ * @returns The first of ',', ';' and tab that occurs in the line, else ','.
+ */
+export function detectSeparator(headerLine: string): string {
+    return [',', ';', '\t'].find(s => headerLine.includes(s)) ?? ',';
+}
+
+/**
+ * Splits one CSV line into trimmed fields.
+ */
+export function splitCsvLine(line: string, separator: string): string[] {
+    const fields: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quoted) {
+            if (ch === '"' && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                current += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === separator) {
+            fields.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    fields.push(current);
+    return fields.map(f => f.trim());
+}
@@ -0,0 +1,132 @@
+/**
+ * @file dynamicSimulation.ts
+ *
+ * Time integration of the Ziegler-Natta kinetic model for a closed (batch) reactor.
+ * Starting from an initial `ZieglerModelInputs` state, all species concentrations,
+ * living and dead polymer moments are integrated with the stiff ODE solver.
+ */
+import { calculateReactionRates, type ZieglerModelInputs, type ZieglerModelOutputs } from './zieglerModel';
+import { defaultKineticParameters, type KineticParameterSet } from './kineticParameters';
+import { integrateStiff, type OdeStatistics } from './odeSolver';
+import {
+    cumulativePolymerProperties,
+    cumulativeSegmentMolecularWeight,
+    instantaneousPolymerProperties,
+    type PolymerProperties,
+} from './polymerProperties';
+import {
+    ratesToVector,
+    stateToVector,
+    toReactorState,
+    vectorToState,
+    type DeadPolymerMoments,
+    type ReactorState,
+    type SpectatorSpecies,
+} from './reactorState';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * Options for a dynamic simulation. All fields are optional.
+ */
+export interface SimulationOptions {
+    outputTimes?: number[];         // Times (hours) to report; default is evenly spaced over the horizon
+    outputPoints?: number;          // Number of evenly spaced points when outputTimes is not given (default 101)
+    relativeTolerance?: number;     // Default 1e-6
+    absoluteTolerance?: number;     // Default 1e-14 (moles/liter)
+    maxSteps?: number;              // Default 50000
+    kineticParameters?: KineticParameterSet; // Default: the original model constants
+}
+
+/**
+ * The reactor state and the corresponding rates at one output time.
+ */
+export interface TrajectoryPoint {
+    time: number;                   // Hours since the start of the simulation
+    state: ReactorState;
+    outputs: ZieglerModelOutputs;
+    instantaneousPolymer: PolymerProperties; // Polymer being formed at this time
+    cumulativePolymer: PolymerProperties;    // All polymer formed since the start
+}
+
+/**
+ * Result of a dynamic simulation.
+ * On failure, `trajectory` contains the points computed before the solver stopped.
+ */
+export interface SimulationResult {
+    trajectory: TrajectoryPoint[];
+    success: boolean;
+    message: string;
+    statistics: OdeStatistics;
+}
+
+
+// ===================================================================================
+// 2. SIMULATION
+// ===================================================================================
+
+/**
+ * Integrates the kinetic model over time for a closed reactor of constant volume and temperature.
+ * @param initialState The initial inputs; dead polymer moments and spectator species default to zero.
+ * @param timeHorizon The simulated duration in hours.
+ * @param options Output times and solver tolerances.
+ * @returns The trajectory of states and reaction rates.
+ */
+export function simulateReactor(
+    initialState: ZieglerModelInputs & Partial<DeadPolymerMoments & SpectatorSpecies>,
+    timeHorizon: number,
+    options: SimulationOptions = {},
+): SimulationResult {
+    if (!(timeHorizon > 0)) {
+        throw new Error(`Time horizon must be positive, got ${timeHorizon}.`);
+    }
+    if (!(initialState.volume > 0)) {
+        throw new Error(`Reactor volume must be positive, got ${initialState.volume}.`);
+    }
+
+    const template = toReactorState(initialState);
+    const parameters = options.kineticParameters ?? defaultKineticParameters;
+    const outputTimes = options.outputTimes ?? evenlySpacedTimes(timeHorizon, options.outputPoints ?? 101);
+
+    // dy/dt in moles/liter/hour; the model is autonomous so t is not used
+    const derivative = (_t: number, y: number[]) => {
+        const outputs = calculateReactionRates(vectorToState(y, template), parameters);
+        return ratesToVector(outputs, template.volume);
+    };
+
+    const solution = integrateStiff(derivative, 0, stateToVector(template), outputTimes, {
+        relativeTolerance: options.relativeTolerance ?? 1e-6,
+        absoluteTolerance: options.absoluteTolerance ?? 1e-14,
+        maxSteps: options.maxSteps,
+        nonNegative: true,
+    });
+
+    const trajectory: TrajectoryPoint[] = solution.times.map((time, i) => {
+        const state = vectorToState(solution.values[i], template);
+        const outputs = calculateReactionRates(state, parameters);
+        return {
+            time,
+            state,
+            outputs,
+            instantaneousPolymer: instantaneousPolymerProperties(outputs),
+            cumulativePolymer: cumulativePolymerProperties(state, cumulativeSegmentMolecularWeight(template, state)),
+        };
+    });
+
+    return {
+        trajectory,
+        success: solution.success,
+        message: solution.message,
+        statistics: solution.statistics,
+    };
+}
+
+/**
+ * Generates `count` evenly spaced times from 0 to `horizon` (inclusive).
+ */
+function evenlySpacedTimes(horizon: number, count: number): number[] {
+    const n = Math.max(2, Math.floor(count));
+    return Array.from({ length: n }, (_, i) => (horizon * i) / (n - 1));
+}
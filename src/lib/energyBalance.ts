@@ -0,0 +1,238 @@
+/**
+ * @file energyBalance.ts
+ *
+ * Energy balance of the reactor: heat released by polymerization and by the
+ * hydrogenation of ethylene, sensible heat taken up by the feed, the cooling duty
+ * needed to hold the reactor temperature, and indicators of thermal runaway.
+ *
+ * Heat capacities come from the 'Vapor heat capacity' correlations of the component
+ * library (see 'componentData.ts' and 'physicalProperties.ts'). Powers are in kW and
+ * positive when heat is released by the reaction or removed by the cooling system.
+ */
+import { calculateReactionRates, type ZieglerModelInputs, type ZieglerModelOutputs } from './zieglerModel';
+import { defaultKineticParameters, type KineticParameterSet } from './kineticParameters';
+import { calculateProperty } from './physicalProperties';
+import { PhysicalProperty } from './propertyCatalog';
+import { REFERENCE_TEMPERATURE, enthalpyChange, reactionEnthalpy } from './thermoFunctions';
+import type { StreamFlows } from './reactorState';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * Reaction enthalpies in J/mol (negative = exothermic).
+ */
+export interface ReactionEnthalpies {
+    ethylenePolymerization: number;     // Per mol of ethylene incorporated
+    hexenePolymerization: number;       // Per mol of 1-hexene incorporated
+    ethyleneHydrogenation: number;      // C2H4 + H2 -> C2H6, per mol of ethane formed
+}
+
+/**
+ * One component entering the reactor with the feed.
+ */
+export interface FeedComponent {
+    component: string;                  // Name in the component library, e.g. 'ETHYLENE'
+    flow: number;                       // mol/h
+    heatCapacity?: number;              // J/mol/K; overrides the library correlation
+}
+
+/**
+ * Feed and cooling conditions of the energy balance.
+ */
+export interface EnergyBalanceConditions {
+    feed: FeedComponent[];
+    feedTemperature: number;            // K
+    coolantTemperature?: number;        // K; used to derive UA when it is not given
+    heatTransferCapacity?: number;      // UA of the cooling system (kW/K)
+}
+
+/**
+ * Options of the energy balance. All fields are optional.
+ */
+export interface EnergyBalanceOptions {
+    reactionEnthalpies?: Partial<ReactionEnthalpies>;
+    contentsDensity?: number;           // Reactor contents (kg/m3, default 500)
+    contentsHeatCapacity?: number;      // Reactor contents (J/kg/K, default 2500)
+    kineticParameters?: KineticParameterSet;
+}
+
+/**
+ * Result of the energy balance at one operating point.
+ */
+export interface EnergyBalanceResult {
+    heatRelease: number;                // Heat released by all reactions (kW)
+    polymerizationHeat: number;         // Part of heatRelease from polymerization (kW)
+    hydrogenationHeat: number;          // Part of heatRelease from ethane formation (kW)
+    feedSensibleHeat: number;           // Heat taken up to bring the feed to reactor temperature (kW)
+    coolingDuty: number;                // Heat the cooling system must remove (kW); negative = heating
+    heatTransferCapacity: number;       // UA used for the runaway analysis (kW/K), NaN if unknown
+    generationSlope: number;            // d(heatRelease)/dT at fixed concentrations (kW/K)
+    removalSlope: number;               // d(heat removal)/dT by cooling and feed (kW/K)
+    runawayMargin: number;              // removalSlope - generationSlope (kW/K); must be positive
+    stable: boolean;                    // Semenov criterion: removal grows faster than generation
+    adiabaticTemperatureRise: number;   // Rise if all monomer in the reactor polymerized without cooling (K)
+    maximumAdiabaticTemperature: number; // Reactor temperature + adiabatic rise (K)
+    adiabaticHeatingRate: number;       // Temperature rise on total loss of cooling (K/h)
+}
+
+/** C2H4 + H2 -> C2H6 */
+const HYDROGENATION_STOICHIOMETRY = { ETHYLENE: -1, HYDROGEN: -1, ETHANE: 1 };
+
+/**
+ * Typical heats of polymerization of the gaseous monomers to amorphous polymer, and the
+ * hydrogenation enthalpy from the ideal-gas enthalpies of the component library at 298.15 K.
+ * 'calculateEnergyBalance' evaluates the hydrogenation enthalpy at the reactor temperature instead.
+ */
+export const DEFAULT_REACTION_ENTHALPIES: ReactionEnthalpies = {
+    ethylenePolymerization: -93.6e3,
+    hexenePolymerization: -84.0e3,
+    ethyleneHydrogenation: reactionEnthalpy(HYDROGENATION_STOICHIOMETRY, REFERENCE_TEMPERATURE),
+};
+
+/** Component library names of the species of the reactor state (propane and butene are not in the library). */
+const STREAM_COMPONENTS: Partial<Record<keyof StreamFlows, string>> = {
+    ethylene: 'ETHYLENE',
+    hexene: '1-HEXENE',
+    hydrogen: 'HYDROGEN',
+    nitrogen: 'NITROGEN',
+    ethane: 'ETHANE',
+    isobutane: 'ISOBUTANE',
+    hexane: 'N-HEXANE',
+    water: 'WATER',
+    carbonMonoxide: 'CARBON MONOXIDE',
+    methane: 'METHANE',
+};
+
+const SECONDS_PER_HOUR = 3600;
+
+
+// ===================================================================================
+// 2. PROPERTIES
+// ===================================================================================
+
+/**
+ * Ideal-gas heat capacity of a library component.
+ * @param component The component name in the library.
+ * @param T The temperature in Kelvin.
+ * @returns The heat capacity in J/mol/K.
+ */
+export function heatCapacity(component: string, T: number): number {
+    const result = calculateProperty(component, PhysicalProperty.VaporHeatCapacity, T);
+    if (!result) {
+        throw new Error(`No heat capacity correlation for component "${component}".`);
+    }
+    return result.value / 1000; // J/kmol/K -> J/mol/K
+}
+
+/**
+ * Heat needed to bring one mole of a component from T1 to T2 (analytic integral of Cp,
+ * see 'thermoFunctions.ts').
+ * @returns The enthalpy difference in J/mol.
+ */
+export function sensibleHeat(component: string, T1: number, T2: number): number {
+    return enthalpyChange(component, T1, T2);
+}
+
+/**
+ * Converts molar flows of the model species into feed components of the library.
+ * Catalyst and cocatalyst flows are too small to matter and are skipped, as are propane
+ * and butene, which have no library data.
+ */
+export function feedFromStreamFlows(flows: StreamFlows): FeedComponent[] {
+    return Object.entries(STREAM_COMPONENTS)
+        .filter(([key]) => (flows[key as keyof StreamFlows] ?? 0) > 0)
+        .map(([key, component]) => ({ component: component!, flow: flows[key as keyof StreamFlows]! }));
+}
+
+
+// ===================================================================================
+// 3. ENERGY BALANCE
+// ===================================================================================
+
+/**
+ * Heat released by the reactions for a set of reaction rates.
+ * @param outputs The reaction rates of the model (mol/h).
+ * @param enthalpies The reaction enthalpies (J/mol).
+ * @returns The polymerization and hydrogenation contributions in kW.
+ */
+export function heatReleaseRate(outputs: ZieglerModelOutputs, enthalpies: ReactionEnthalpies = DEFAULT_REACTION_ENTHALPIES) {
+    const polymerization = -(outputs.rateEthylenesegment * enthalpies.ethylenePolymerization + outputs.rateHexenesegment * enthalpies.hexenePolymerization) / SECONDS_PER_HOUR / 1000;
+    const hydrogenation = -(outputs.rateEthane * enthalpies.ethyleneHydrogenation) / SECONDS_PER_HOUR / 1000;
+    return { polymerization, hydrogenation, total: polymerization + hydrogenation };
+}
+
+/**
+ * Computes heat release, cooling duty and runaway indicators at one operating point.
+ * @param inputs The reactor state (concentrations, temperature, volume).
+ * @param conditions Feed composition and temperature, and the cooling system.
+ * @param options Reaction enthalpies, properties of the reactor contents and kinetic parameters.
+ * @returns The energy balance.
+ */
+export function calculateEnergyBalance(
+    inputs: ZieglerModelInputs,
+    conditions: EnergyBalanceConditions,
+    options: EnergyBalanceOptions = {},
+): EnergyBalanceResult {
+    const T = inputs.temperature;
+    const enthalpies = {
+        ...DEFAULT_REACTION_ENTHALPIES,
+        ethyleneHydrogenation: reactionEnthalpy(HYDROGENATION_STOICHIOMETRY, T),
+        ...options.reactionEnthalpies,
+    };
+    const parameters = options.kineticParameters ?? defaultKineticParameters;
+    const density = options.contentsDensity ?? 500;
+    const contentsCp = options.contentsHeatCapacity ?? 2500;
+
+    const release = heatReleaseRate(calculateReactionRates(inputs, parameters), enthalpies);
+
+    // --- Feed: heat taken up from feed temperature to reactor temperature ---
+    let feedSensibleHeat = 0;   // kW
+    let feedFlowCapacity = 0;   // Sum of F * Cp at reactor temperature (kW/K)
+    for (const stream of conditions.feed) {
+        const flow = stream.flow / SECONDS_PER_HOUR; // mol/s
+        const heat = stream.heatCapacity !== undefined
+            ? stream.heatCapacity * (T - conditions.feedTemperature)
+            : sensibleHeat(stream.component, conditions.feedTemperature, T);
+        const cp = stream.heatCapacity ?? heatCapacity(stream.component, T);
+        feedSensibleHeat += (flow * heat) / 1000;
+        feedFlowCapacity += (flow * cp) / 1000;
+    }
+    const coolingDuty = release.total - feedSensibleHeat;
+
+    // --- Runaway (Semenov): compare the slopes of heat generation and heat removal ---
+    let UA = conditions.heatTransferCapacity ?? NaN;
+    if (!Number.isFinite(UA) && conditions.coolantTemperature !== undefined && T > conditions.coolantTemperature) {
+        UA = Math.max(coolingDuty, 0) / (T - conditions.coolantTemperature);
+    }
+    const dT = 0.01;
+    const releaseAt = (temperature: number) =>
+        heatReleaseRate(calculateReactionRates({ ...inputs, temperature }, parameters), enthalpies).total;
+    const generationSlope = (releaseAt(T + dT) - releaseAt(T - dT)) / (2 * dT);
+    // Without a known UA only the feed removes heat, i.e. the loss-of-cooling case
+    const removalSlope = feedFlowCapacity + (Number.isFinite(UA) ? UA : 0);
+    const runawayMargin = removalSlope - generationSlope;
+
+    // --- Adiabatic indicators ---
+    const contentsMass = (density / 1000) * inputs.volume;   // kg (volume in liters)
+    const releasableHeat = -(inputs.ethylene * enthalpies.ethylenePolymerization + inputs.hexene * enthalpies.hexenePolymerization); // J/L
+    const adiabaticTemperatureRise = releasableHeat / ((density / 1000) * contentsCp);
+    const adiabaticHeatingRate = (release.total * 1000 * SECONDS_PER_HOUR) / (contentsMass * contentsCp);
+
+    return {
+        heatRelease: release.total,
+        polymerizationHeat: release.polymerization,
+        hydrogenationHeat: release.hydrogenation,
+        feedSensibleHeat,
+        coolingDuty,
+        heatTransferCapacity: UA,
+        generationSlope,
+        removalSlope,
+        runawayMargin,
+        stable: runawayMargin > 0,
+        adiabaticTemperatureRise,
+        maximumAdiabaticTemperature: T + adiabaticTemperatureRise,
+        adiabaticHeatingRate,
+    };
+}
@@ -0,0 +1,237 @@
+/**
+ * @file equationOfState.ts
+ *
+ * Cubic equations of state (Peng–Robinson and Soave–Redlich–Kwong) built on the
+ * critical constants and acentric factors of the component library. For a pure
+ * component or a mixture (van der Waals one-fluid mixing rules with binary interaction
+ * parameters k_ij) at given temperature and pressure they give the compressibility
+ * factor, molar density, fugacity coefficients and departure enthalpy, and the molar
+ * concentrations that `ZieglerModelInputs` expects.
+ *
+ * Both equations are written in the generic form
+ *     P = RT / (V - b) - a(T) / ((V + d1 b)(V + d2 b))
+ * with d1 = 1 + √2, d2 = 1 - √2 for Peng–Robinson and d1 = 1, d2 = 0 for SRK.
+ * Liquid densities of cubic equations without volume translation are typically off by
+ * 5-15 %; vapor properties and fugacities are the strength of these equations.
+ */
+import { componentLibrary } from './componentData';
+import { toMoleFractions, type MixtureComposition } from './mixtureProperties';
+import type { ZieglerModelInputs } from './zieglerModel';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+export type CubicEquation = 'PR' | 'SRK';
+
+/**
+ * Root of the cubic to report: the smallest (liquid) or largest (vapor) compressibility
+ * factor, or the one with the lower Gibbs energy ('stable'). With a single real root
+ * all three give the same state.
+ */
+export type EosPhase = 'liquid' | 'vapor' | 'stable';
+
+/**
+ * Options of the equation of state. All fields are optional.
+ */
+export interface EosOptions {
+    equation?: CubicEquation;                       // Default 'PR'
+    binaryInteraction?: Record<string, number>;     // k_ij by 'A|B' (symmetric, default 0)
+}
+
+/**
+ * State of a pure component or mixture from the equation of state.
+ */
+export interface EosState {
+    equation: CubicEquation;
+    phase: 'liquid' | 'vapor';          // 'liquid' for the smallest root of three, else 'vapor'
+    realRoots: number;                  // 1 or 3 (one root: the phase label follows Z > 0.3)
+    temperature: number;                // K
+    pressure: number;                   // bar
+    compressibility: number;            // Z = PV/RT
+    molarVolume: number;                // L/mol
+    molarDensity: number;               // mol/L
+    departureEnthalpy: number;          // H - H(ideal gas) (J/mol)
+    moleFractions: Record<string, number>;
+    fugacityCoefficients: Record<string, number>;
+    concentrations: Record<string, number>;         // mol/L
+}
+
+interface EquationConstants {
+    omegaA: number;
+    omegaB: number;
+    d1: number;
+    d2: number;
+    m: (omega: number) => number;
+}
+
+const GAS_CONSTANT = 8.314462618;       // J/mol/K
+
+const EQUATIONS: Record<CubicEquation, EquationConstants> = {
+    PR: {
+        omegaA: 0.45724,
+        omegaB: 0.07780,
+        d1: 1 + Math.SQRT2,
+        d2: 1 - Math.SQRT2,
+        m: omega => 0.37464 + 1.54226 * omega - 0.26992 * omega ** 2,
+    },
+    SRK: {
+        omegaA: 0.42748,
+        omegaB: 0.08664,
+        d1: 1,
+        d2: 0,
+        m: omega => 0.480 + 1.574 * omega - 0.176 * omega ** 2,
+    },
+};
+
+
+// ===================================================================================
+// 2. CUBIC ROOTS
+// ===================================================================================
+
+/**
+ * Real roots of Z³ + c2 Z² + c1 Z + c0 = 0 in ascending order (Cardano, with the
+ * trigonometric form for three real roots).
+ */
+export function cubicRoots(c2: number, c1: number, c0: number): number[] {
+    const q = (3 * c1 - c2 ** 2) / 9;
+    const r = (9 * c2 * c1 - 27 * c0 - 2 * c2 ** 3) / 54;
+    const discriminant = q ** 3 + r ** 2;
+    const shift = -c2 / 3;
+    if (discriminant > 0) {
+        const s = Math.cbrt(r + Math.sqrt(discriminant));
+        const t = Math.cbrt(r - Math.sqrt(discriminant));
+        return [shift + s + t];
+    }
+    if (q === 0) return [shift];
+    const theta = Math.acos(Math.max(-1, Math.min(1, r / Math.sqrt(-(q ** 3)))));
+    const radius = 2 * Math.sqrt(-q);
+    return [0, 1, 2]
+        .map(k => shift + radius * Math.cos((theta + 2 * Math.PI * k) / 3))
+        .sort((a, b) => a - b);
+}
+
+
+// ===================================================================================
+// 3. EQUATION OF STATE
+// ===================================================================================
+
+/**
+ * Evaluates the equation of state for a mixture.
+ * @param composition Mole or mass fractions by component library name.
+ * @param T The temperature in Kelvin.
+ * @param P The pressure in bar.
+ * @param phase Which root of the cubic to report.
+ * @param options Equation and binary interaction parameters.
+ * @returns The state at (T, P).
+ * @throws Error for unknown components or non-positive temperature or pressure.
+ */
+export function calculateEosState(composition: MixtureComposition, T: number, P: number, phase: EosPhase = 'stable', options: EosOptions = {}): EosState {
+    if (!(T > 0) || !(P > 0)) {
+        throw new Error(`Temperature and pressure must be positive, got ${T} K and ${P} bar.`);
+    }
+    const equation = options.equation ?? 'PR';
+    const { omegaA, omegaB, d1, d2, m } = EQUATIONS[equation];
+    const fractions = toMoleFractions(composition);
+    const names = [...fractions.keys()];
+    const x = names.map(name => fractions.get(name)!);
+    const RT = GAS_CONSTANT * T;
+    const Pa = P * 1e5;
+
+    // --- Pure-component parameters a_i(T), da_i/dT and b_i ---
+    const ai: number[] = [];
+    const dai: number[] = [];
+    const bi: number[] = [];
+    for (const name of names) {
+        const { critical_temperature: Tc, critical_pressure, acentric_factor } = componentLibrary.get(name)!.constants;
+        const Pc = critical_pressure * 1e5;
+        const ac = (omegaA * (GAS_CONSTANT * Tc) ** 2) / Pc;
+        const mi = m(acentric_factor);
+        const sqrtAlpha = 1 + mi * (1 - Math.sqrt(T / Tc));
+        ai.push(ac * sqrtAlpha ** 2);
+        dai.push((-ac * mi * sqrtAlpha) / Math.sqrt(T * Tc));
+        bi.push((omegaB * GAS_CONSTANT * Tc) / Pc);
+    }
+
+    // --- Mixing rules: a = sum x_i x_j sqrt(a_i a_j)(1 - k_ij), b = sum x_i b_i ---
+    const kij = (i: number, j: number) =>
+        i === j ? 0 : options.binaryInteraction?.[`${names[i]}|${names[j]}`] ?? options.binaryInteraction?.[`${names[j]}|${names[i]}`] ?? 0;
+    const sumXa = names.map(() => 0);   // sum_j x_j a_ij
+    let a = 0;
+    let dadT = 0;
+    for (let i = 0; i < names.length; i++) {
+        for (let j = 0; j < names.length; j++) {
+            const sqrtAiAj = Math.sqrt(ai[i] * ai[j]);
+            const aij = (1 - kij(i, j)) * sqrtAiAj;
+            const daij = ((1 - kij(i, j)) * (dai[i] * ai[j] + ai[i] * dai[j])) / (2 * sqrtAiAj);
+            sumXa[i] += x[j] * aij;
+            a += x[i] * x[j] * aij;
+            dadT += x[i] * x[j] * daij;
+        }
+    }
+    const b = x.reduce((sum, xi, i) => sum + xi * bi[i], 0);
+
+    // --- Compressibility factor ---
+    const A = (a * Pa) / RT ** 2;
+    const B = (b * Pa) / RT;
+    const roots = cubicRoots(
+        (d1 + d2 - 1) * B - 1,
+        A + d1 * d2 * B ** 2 - (d1 + d2) * B * (B + 1),
+        -(A * B + d1 * d2 * B ** 2 * (B + 1)),
+    ).filter(Z => Z > B);
+    if (roots.length === 0) {
+        throw new Error(`No physical root of the ${equation} equation at ${T} K and ${P} bar.`);
+    }
+
+    const lnFugacity = (Z: number) => {
+        const logTerm = Math.log((Z + d1 * B) / (Z + d2 * B));
+        return names.map((_, i) =>
+            (bi[i] / b) * (Z - 1) - Math.log(Z - B) - (A / (B * (d1 - d2))) * ((2 * sumXa[i]) / a - bi[i] / b) * logTerm);
+    };
+    // Dimensionless Gibbs departure sum x_i ln(phi_i), to choose between two roots
+    const gibbs = (Z: number) => lnFugacity(Z).reduce((sum, lnPhi, i) => sum + x[i] * lnPhi, 0);
+    const [smallest, largest] = [roots[0], roots[roots.length - 1]];
+    const Z = phase === 'liquid' ? smallest
+        : phase === 'vapor' ? largest
+        : gibbs(smallest) < gibbs(largest) ? smallest : largest;
+
+    const lnPhi = lnFugacity(Z);
+    const molarVolume = (Z * RT) / Pa * 1000; // L/mol
+    const departureEnthalpy = RT * (Z - 1) + ((T * dadT - a) / (b * (d1 - d2))) * Math.log((Z + d1 * B) / (Z + d2 * B));
+    const record = (values: number[]) => Object.fromEntries(names.map((name, i) => [name, values[i]]));
+    return {
+        equation,
+        phase: roots.length > 1 ? (Z === smallest ? 'liquid' : 'vapor') : Z > 0.3 ? 'vapor' : 'liquid',
+        realRoots: roots.length,
+        temperature: T,
+        pressure: P,
+        compressibility: Z,
+        molarVolume,
+        molarDensity: 1 / molarVolume,
+        departureEnthalpy,
+        moleFractions: record(x),
+        fugacityCoefficients: record(lnPhi.map(Math.exp)),
+        concentrations: record(x.map(xi => xi / molarVolume)),
+    };
+}
+
+/**
+ * Evaluates the equation of state for a pure component.
+ * @see calculateEosState
+ */
+export function calculatePureEosState(component: string, T: number, P: number, phase: EosPhase = 'stable', options: EosOptions = {}): EosState {
+    return calculateEosState({ basis: 'mole', fractions: { [component]: 1 } }, T, P, phase, options);
+}
+
+/**
+ * Picks the concentrations of the species of the kinetic model from a state
+ * (normally the liquid phase). Species absent from the mixture get 0.
+ * @returns Ethylene, 1-hexene and hydrogen concentrations in mol/L.
+ */
+export function toModelConcentrations(state: EosState): Pick<ZieglerModelInputs, 'ethylene' | 'hexene' | 'hydrogen'> {
+    return {
+        ethylene: state.concentrations['ETHYLENE'] ?? 0,
+        hexene: state.concentrations['1-HEXENE'] ?? 0,
+        hydrogen: state.concentrations['HYDROGEN'] ?? 0,
+    };
+}
@@ -0,0 +1,269 @@
+/**
+ * @file flashCalculation.ts
+ *
+ * Isothermal flash (given temperature and pressure) of the reactor contents: splits an
+ * overall composition, e.g. isobutane diluent with ethylene, 1-hexene and hydrogen,
+ * into liquid and vapor, and gives the liquid-phase concentrations that
+ * `ZieglerModelInputs` expects.
+ *
+ * The phase split solves the Rachford–Rice equation
+ *     sum z_i (K_i - 1) / (1 + beta (K_i - 1)) = 0
+ * for the vapor fraction beta. K-values come either from the equation of state
+ * (K_i = phi_i(liquid) / phi_i(vapor), successive substitution after a stability test
+ * started from Wilson's correlation) or from Raoult's law with the 'Vapor pressure' correlations of the
+ * library (K_i = Psat_i / P; Wilson's correlation for components above their
+ * critical temperature or without a correlation).
+ *
+ * The liquid molar density comes from the Rackett equation (see 'mixtureProperties.ts'),
+ * which is closer to measured liquid densities than the cubic equations.
+ */
+import { componentLibrary } from './componentData';
+import { calculateProperty } from './physicalProperties';
+import { PhysicalProperty } from './propertyCatalog';
+import { rackettMolarVolume, toMoleFractions, type MixtureComposition } from './mixtureProperties';
+import { calculateEosState, type EosOptions } from './equationOfState';
+import type { ZieglerModelInputs } from './zieglerModel';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+export type KValueMethod = 'eos' | 'vaporPressure';
+
+/**
+ * Options of the flash. All fields are optional.
+ */
+export interface FlashOptions extends EosOptions {
+    kValues?: KValueMethod;             // Default 'eos'
+    maxIterations?: number;             // Successive substitution steps (default 200)
+    tolerance?: number;                 // On sum (ln K_new - ln K)^2 (default 1e-12)
+}
+
+/** Phases present at equilibrium. */
+export type FlashPhases = 'two-phase' | 'liquid' | 'vapor';
+
+/**
+ * Result of a flash.
+ */
+export interface FlashResult {
+    temperature: number;                // K
+    pressure: number;                   // bar
+    phases: FlashPhases;
+    vaporFraction: number;              // Moles of vapor per mole of feed (0 to 1)
+    feed: Record<string, number>;       // Overall mole fractions z
+    liquid: Record<string, number>;     // Liquid mole fractions x (= z for liquid only, empty for vapor only)
+    vapor: Record<string, number>;      // Vapor mole fractions y (= z for vapor only, empty for liquid only)
+    kValues: Record<string, number>;    // For a stable single phase: Wilson's estimates
+    liquidMolarDensity: number;         // mol/L; NaN without liquid
+    liquidConcentrations: Record<string, number>;   // mol/L
+    modelConcentrations: Pick<ZieglerModelInputs, 'ethylene' | 'hexene' | 'hydrogen'>; // mol/L; NaN without liquid
+    iterations: number;
+    converged: boolean;
+}
+
+
+// ===================================================================================
+// 2. K-VALUES AND RACHFORD-RICE
+// ===================================================================================
+
+/**
+ * Wilson's estimate of the K-value of a library component.
+ */
+export function wilsonKValue(component: string, T: number, P: number): number {
+    const { critical_temperature: Tc, critical_pressure: Pc, acentric_factor: omega } = componentLibrary.get(component)!.constants;
+    return (Pc / P) * Math.exp(5.373 * (1 + omega) * (1 - Tc / T));
+}
+
+/**
+ * Raoult's-law K-value Psat / P from the 'Vapor pressure' correlation of the library,
+ * or Wilson's estimate where the correlation is missing or does not cover T.
+ */
+export function raoultKValue(component: string, T: number, P: number): number {
+    const Psat = calculateProperty(component, PhysicalProperty.VaporPressure, T);
+    return Psat?.status === 'in-range'
+        ? Psat.value / 1e5 / P // Pa -> bar
+        : wilsonKValue(component, T, P);
+}
+
+/**
+ * Solves the Rachford–Rice equation for the vapor fraction. The root may lie outside
+ * [0, 1] ("negative flash"): below 0 the feed is a subcooled liquid, above 1 a
+ * superheated vapor.
+ * @returns The vapor fraction, -Infinity if all K < 1, +Infinity if all K > 1.
+ */
+export function solveRachfordRice(z: number[], K: number[]): number {
+    const Kmax = Math.max(...K);
+    const Kmin = Math.min(...K);
+    if (Kmax <= 1) return -Infinity;
+    if (Kmin >= 1) return Infinity;
+    const f = (beta: number) => z.reduce((sum, zi, i) => sum + (zi * (K[i] - 1)) / (1 + beta * (K[i] - 1)), 0);
+    const df = (beta: number) => -z.reduce((sum, zi, i) => sum + (zi * (K[i] - 1) ** 2) / (1 + beta * (K[i] - 1)) ** 2, 0);
+
+    // f decreases between the poles 1/(1 - Kmax) and 1/(1 - Kmin); Newton safeguarded by bisection
+    let lo = 1 / (1 - Kmax);
+    let hi = 1 / (1 - Kmin);
+    let beta = Math.min(Math.max(0.5, lo + 1e-9 * (hi - lo)), hi - 1e-9 * (hi - lo));
+    for (let i = 0; i < 200; i++) {
+        const value = f(beta);
+        if (value > 0) lo = beta; else hi = beta;
+        const next = beta - value / df(beta);
+        beta = next > lo && next < hi ? next : (lo + hi) / 2;
+        if (Math.abs(value) < 1e-14 || hi - lo < 1e-15 * Math.max(1, Math.abs(beta))) break;
+    }
+    return beta;
+}
+
+
+// ===================================================================================
+// 3. FLASH
+// ===================================================================================
+
+/**
+ * Isothermal flash at given temperature and pressure.
+ * @param feed Overall composition (mole or mass fractions, or flows) by component library name.
+ * @param T The temperature in Kelvin.
+ * @param P The pressure in bar.
+ * @param options K-value method, equation of state and iteration controls.
+ * @returns Phase split, phase compositions and liquid concentrations.
+ * @throws Error for unknown components or non-positive temperature or pressure.
+ */
+export function flashCalculation(feed: MixtureComposition, T: number, P: number, options: FlashOptions = {}): FlashResult {
+    if (!(T > 0) || !(P > 0)) {
+        throw new Error(`Temperature and pressure must be positive, got ${T} K and ${P} bar.`);
+    }
+    const method = options.kValues ?? 'eos';
+    const maxIterations = options.maxIterations ?? 200;
+    const tolerance = options.tolerance ?? 1e-12;
+    const fractions = toMoleFractions(feed);
+    const names = [...fractions.keys()].filter(name => fractions.get(name)! > 0);
+    const z = names.map(name => fractions.get(name)!);
+    const record = (values: number[]) => Object.fromEntries(names.map((name, i) => [name, values[i]]));
+    const composition = (values: number[]): MixtureComposition => ({ basis: 'mole', fractions: record(values) });
+
+    let K = names.map(name => (method === 'eos' ? wilsonKValue : raoultKValue)(name, T, P));
+    let beta = solveRachfordRice(z, K);
+    let phases: FlashPhases = beta <= 0 ? 'liquid' : beta >= 1 ? 'vapor' : 'two-phase';
+    let iterations = 0;
+    let converged = true;
+    if (method === 'eos') {
+        // A feed that passes the stability test stays one phase; otherwise the test gives the starting K-values
+        const stability = stabilityAnalysis(names, z, T, P, K, options, maxIterations, tolerance);
+        iterations = stability.iterations;
+        if (stability.K === null) {
+            phases = calculateEosState(composition(z), T, P, 'stable', options).phase;
+        } else {
+            K = stability.K;
+            beta = solveRachfordRice(z, K);
+            converged = false;
+            for (let step = 1; step <= maxIterations; step++) {
+                const { x, y } = phaseCompositions(z, K, beta);
+                const phiL = calculateEosState(composition(x), T, P, 'liquid', options).fugacityCoefficients;
+                const phiV = calculateEosState(composition(y), T, P, 'vapor', options).fugacityCoefficients;
+                const next = names.map(name => phiL[name] / phiV[name]);
+                const change = next.reduce((sum, k, i) => sum + Math.log(k / K[i]) ** 2, 0);
+                K = next;
+                beta = solveRachfordRice(z, K);
+                iterations++;
+                if (change < tolerance) {
+                    converged = true;
+                    break;
+                }
+            }
+            phases = beta <= 0 ? 'liquid' : beta >= 1 ? 'vapor' : 'two-phase';
+            // Collapse onto the trivial solution K = 1: one phase after all
+            if (K.every(k => Math.abs(Math.log(k)) < 1e-4)) {
+                phases = calculateEosState(composition(z), T, P, 'stable', options).phase;
+            }
+        }
+    }
+
+    const vaporFraction = phases === 'liquid' ? 0 : phases === 'vapor' ? 1 : beta;
+    const { x, y } = phases === 'two-phase' ? phaseCompositions(z, K, beta) : { x: z, y: z };
+
+    // --- Liquid concentrations ---
+    let liquidMolarDensity = NaN;
+    if (phases !== 'vapor') {
+        const volume = rackettMolarVolume(x, names.map(name => componentLibrary.get(name)!.constants), T); // m3/mol
+        liquidMolarDensity = Number.isFinite(volume)
+            ? 1 / volume / 1000
+            : calculateEosState(composition(x), T, P, 'liquid', options).molarDensity;
+    }
+    const liquidConcentrations = record(x.map(xi => xi * liquidMolarDensity));
+    return {
+        temperature: T,
+        pressure: P,
+        phases,
+        vaporFraction,
+        feed: record(z),
+        liquid: phases === 'vapor' ? {} : record(x),
+        vapor: phases === 'liquid' ? {} : record(y),
+        kValues: record(K),
+        liquidMolarDensity,
+        liquidConcentrations,
+        modelConcentrations: {
+            ethylene: liquidConcentrations['ETHYLENE'] ?? (phases === 'vapor' ? NaN : 0),
+            hexene: liquidConcentrations['1-HEXENE'] ?? (phases === 'vapor' ? NaN : 0),
+            hydrogen: liquidConcentrations['HYDROGEN'] ?? (phases === 'vapor' ? NaN : 0),
+        },
+        iterations,
+        converged,
+    };
+}
+
+/**
+ * Tangent-plane stability test of Michelsen with a vapor-like and a liquid-like trial
+ * phase, started from the given K-values.
+ * @returns K-values to start the flash from when the feed splits into two phases
+ *          (null when it is stable), and the number of iterations used.
+ */
+function stabilityAnalysis(
+    names: string[],
+    z: number[],
+    T: number,
+    P: number,
+    K0: number[],
+    options: EosOptions,
+    maxIterations: number,
+    tolerance: number,
+): { K: number[] | null; iterations: number } {
+    const composition = (values: number[]): MixtureComposition => {
+        const total = values.reduce((a, c) => a + c, 0);
+        return { basis: 'mole', fractions: Object.fromEntries(names.map((name, i) => [name, values[i] / total])) };
+    };
+    const feedPhi = calculateEosState(composition(z), T, P, 'stable', options).fugacityCoefficients;
+    const d = z.map((zi, i) => Math.log(zi) + Math.log(feedPhi[names[i]]));
+    let iterations = 0;
+    for (const trial of ['vapor', 'liquid'] as const) {
+        let Y = z.map((zi, i) => (trial === 'vapor' ? zi * K0[i] : zi / K0[i]));
+        for (let step = 0; step < maxIterations; step++) {
+            const phi = calculateEosState(composition(Y), T, P, trial, options).fugacityCoefficients;
+            const next = d.map((di, i) => Math.exp(di - Math.log(phi[names[i]])));
+            const change = next.reduce((sum, value, i) => sum + Math.log(value / Y[i]) ** 2, 0);
+            Y = next;
+            iterations++;
+            if (change < tolerance) break;
+        }
+        // Unstable when the trial phase has a negative tangent plane distance (sum Y > 1) and differs from the feed
+        const total = Y.reduce((a, c) => a + c, 0);
+        const trivial = Y.reduce((sum, value, i) => sum + Math.log(value / total / z[i]) ** 2, 0) < 1e-8;
+        if (!trivial && total > 1 + 1e-8) {
+            return { K: Y.map((value, i) => (trial === 'vapor' ? value / total / z[i] : z[i] / (value / total))), iterations };
+        }
+    }
+    return { K: null, iterations };
+}
+
+/**
+ * Liquid and vapor compositions for a vapor fraction, normalized. A vapor fraction
+ * outside [0, 1] (negative flash) gives the compositions of the incipient phase.
+ */
+function phaseCompositions(z: number[], K: number[], beta: number): { x: number[]; y: number[] } {
+    const normalize = (v: number[]) => {
+        const total = v.reduce((a, c) => a + c, 0);
+        return v.map(value => value / total);
+    };
+    if (beta === Infinity) return { x: normalize(z.map((zi, i) => zi / K[i])), y: z };
+    if (beta === -Infinity) return { x: z, y: normalize(z.map((zi, i) => zi * K[i])) };
+    const x = z.map((zi, i) => zi / (1 + beta * (K[i] - 1)));
+    return { x: normalize(x), y: normalize(x.map((xi, i) => xi * K[i])) };
+}
@@ -0,0 +1,248 @@
+/**
+ * @file kineticParameters.ts
+ *
+ * Kinetic parameter sets for the Ziegler-Natta model. A parameter set holds the fitted
+ * Arrhenius constants of every reaction together with its name, version and provenance,
+ * so that each catalyst grade can have its own set without editing source code.
+ * Sets can be loaded from and saved to JSON and are validated on load.
+ */
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * Parameters of one rate constant in the model's Arrhenius form:
+ * k = exp(a) * exp(-exp(b) / T)
+ * so exp(a) is the pre-exponential factor and exp(b) the activation temperature (K).
+ */
+export interface ArrheniusParameters {
+    a: number;
+    b: number;
+}
+
+/**
+ * Names of all rate constants of the model.
+ * Suffix 'i_j' or 'ik_j': i = chain end monomer, k = reacting monomer, j = site type.
+ */
+export const RATE_CONSTANT_NAMES = [
+    // Activation of inactive catalyst sites
+    'ka', 'kaa', 'kaH',
+    // Initiation
+    'ki1_1', 'ki1_2', 'ki2_1', 'ki2_2',
+    // Propagation
+    'kp11_1', 'kp11_2', 'kp12_1', 'kp12_2', 'kp21_1', 'kp21_2', 'kp22_1', 'kp22_2',
+    // Transfer to monomer
+    'kt11_1', 'kt11_2', 'kt12_1', 'kt12_2', 'kt21_1', 'kt21_2', 'kt22_1', 'kt22_2',
+    // Transfer to hydrogen
+    'ktH1_1', 'ktH1_2', 'ktH2_1', 'ktH2_2',
+    // Spontaneous termination (deactivation)
+    'kte1_1', 'kte1_2', 'kte2_1', 'kte2_2',
+    // Side reaction: ethylene hydrogenation to ethane
+    'kethane',
+] as const;
+
+export type RateConstantName = typeof RATE_CONSTANT_NAMES[number];
+
+/** Values of all rate constants at one temperature. */
+export type RateConstants = Record<RateConstantName, number>;
+
+/**
+ * A complete, self-describing set of kinetic parameters.
+ */
+export interface KineticParameterSet {
+    name: string;                                              // E.g. the catalyst grade
+    version: string;                                           // Version of the fit
+    provenance: string;                                        // Origin of the values (data set, fit date, author)
+    description?: string;
+    arrhenius: Record<RateConstantName, ArrheniusParameters>;
+    siteFraction: number;                                      // teta1: fraction of activated sites of type 1
+    ethaneFactors: Record<number, number>;                     // reactorFlag -> 'eth' constant
+    fittedTemperatureRange?: [number, number];                 // Temperatures (K) covered by the fitted data
+}
+
+
+// ===================================================================================
+// 2. DEFAULT PARAMETER SET
+// ===================================================================================
+
+/**
+ * The parameter set the model was originally built with.
+ */
+export const defaultKineticParameters: KineticParameterSet = {
+    name: 'Default',
+    version: '1.0.0',
+    provenance: 'Constants of the original kinetic model (previously hard-coded in zieglerModel.ts).',
+    arrhenius: {
+        // -- Activation Parameters --
+        ka: { a: 1.90413, b: 2.35352 },
+        kaa: { a: 42.8061, b: 2.07067 },
+        kaH: { a: 43.4913, b: 1.81544 },
+
+        // -- Initiation Parameters --
+        ki1_1: { a: 2.72252, b: 0.00164819 },
+        ki1_2: { a: 0.0190001, b: 2.76802 },
+        ki2_1: { a: 0.00158295, b: 75.0948 },
+        ki2_2: { a: 2.49924, b: 3.86923 },
+
+        // -- Propagation Parameters --
+        kp11_1: { a: 23.5079, b: 62.7073 },
+        kp11_2: { a: 44.4108489690084, b: 9.02536689954115 },
+        kp12_1: { a: 7.45487, b: 570.828 },
+        kp12_2: { a: 16.6269298831462, b: 1.34505395511823E-02 },
+        kp21_1: { a: 11.7691, b: 13.1246 },
+        kp21_2: { a: 13.0385236154171, b: 7.12672329782542E-02 },
+        kp22_1: { a: 0.0506817, b: 91.5249 },
+        kp22_2: { a: 10.2482861977761, b: 245.73403529402 },
+
+        // -- Transfer Parameters --
+        kt11_1: { a: 1.91232, b: 574.851 },
+        kt11_2: { a: 2.12135, b: 198.691 },
+        kt12_1: { a: 2.3086, b: 598.13 },
+        kt12_2: { a: 1.92168, b: 449.254 },
+        kt21_1: { a: 1.88274, b: 10.4787 },
+        kt21_2: { a: 1.81545, b: 50.6018 },
+        kt22_1: { a: 1.85856, b: 15.4026 },
+        kt22_2: { a: 2.041, b: 476.019 },
+        ktH1_1: { a: 8.24086, b: 24.0953 },
+        ktH1_2: { a: 7.87596, b: 2.95216 },
+        ktH2_1: { a: 10.4391, b: 0.00153492 },
+        ktH2_2: { a: 0.806824, b: 46.4001 },
+
+        // -- Termination Parameters --
+        kte1_1: { a: 2.01811, b: 13.8224 },
+        kte1_2: { a: 1.99198, b: 15.4759 },
+        kte2_1: { a: 1.83056, b: 15.2807 },
+        kte2_2: { a: 2.11061, b: 10.8984 },
+
+        // -- Other Parameters --
+        kethane: { a: 0.0010069, b: 3.06806 },
+    },
+    siteFraction: 0.624963,
+    ethaneFactors: { 1: 5.34329, 2: 1.13724, 3: 0.318066, 4: 0.456617 },
+    // No fittedTemperatureRange: the temperatures of the original fit are not recorded
+};
+
+
+// ===================================================================================
+// 3. RATE CONSTANTS
+// ===================================================================================
+
+/**
+ * Evaluates the Arrhenius expression k = exp(a) * exp(-exp(b) / T).
+ */
+export function arrhenius(parameters: ArrheniusParameters, T: number): number {
+    return Math.exp(parameters.a) * Math.exp(-Math.exp(parameters.b) / T);
+}
+
+/**
+ * Computes every rate constant of a parameter set at the given temperature.
+ * @param T The temperature in Kelvin.
+ * @param parameters The kinetic parameter set (defaults to the original constants).
+ * @returns An object mapping each rate constant name to its value.
+ */
+export function calculateRateConstants(T: number, parameters: KineticParameterSet = defaultKineticParameters): RateConstants {
+    const constants = {} as RateConstants;
+    for (const name of RATE_CONSTANT_NAMES) {
+        constants[name] = arrhenius(parameters.arrhenius[name], T);
+    }
+    return constants;
+}
+
+
+// ===================================================================================
+// 4. JSON LOADING, SAVING AND VALIDATION
+// ===================================================================================
+
+/**
+ * Checks that an arbitrary value is a complete and consistent kinetic parameter set.
+ * @param data The value to check, typically the result of JSON.parse.
+ * @returns A list of human-readable problems; empty if the set is valid.
+ */
+export function validateKineticParameterSet(data: unknown): string[] {
+    const errors: string[] = [];
+    if (typeof data !== 'object' || data === null) {
+        return ['Parameter set must be a JSON object.'];
+    }
+    const set = data as Partial<KineticParameterSet>;
+
+    for (const field of ['name', 'version', 'provenance'] as const) {
+        if (typeof set[field] !== 'string' || set[field].trim() === '') {
+            errors.push(`Field "${field}" must be a non-empty string.`);
+        }
+    }
+    if (set.description !== undefined && typeof set.description !== 'string') {
+        errors.push('Field "description" must be a string.');
+    }
+
+    if (typeof set.arrhenius !== 'object' || set.arrhenius === null) {
+        errors.push('Field "arrhenius" must be an object of { a, b } pairs.');
+    } else {
+        for (const name of RATE_CONSTANT_NAMES) {
+            const pair = (set.arrhenius as Partial<Record<string, Partial<ArrheniusParameters>>>)[name];
+            if (!pair) {
+                errors.push(`Missing Arrhenius parameters for "${name}".`);
+            } else if (!Number.isFinite(pair.a) || !Number.isFinite(pair.b)) {
+                errors.push(`Arrhenius parameters of "${name}" must have finite numeric "a" and "b".`);
+            }
+        }
+        for (const name of Object.keys(set.arrhenius)) {
+            if (!(RATE_CONSTANT_NAMES as readonly string[]).includes(name)) {
+                errors.push(`Unknown rate constant "${name}".`);
+            }
+        }
+    }
+
+    if (typeof set.siteFraction !== 'number' || !(set.siteFraction >= 0 && set.siteFraction <= 1)) {
+        errors.push('Field "siteFraction" must be a number between 0 and 1.');
+    }
+
+    if (typeof set.ethaneFactors !== 'object' || set.ethaneFactors === null) {
+        errors.push('Field "ethaneFactors" must map reactor flags to numbers.');
+    } else {
+        for (const [flag, value] of Object.entries(set.ethaneFactors)) {
+            if (!Number.isInteger(Number(flag))) {
+                errors.push(`Ethane factor key "${flag}" is not an integer reactor flag.`);
+            }
+            if (!Number.isFinite(value) || value < 0) {
+                errors.push(`Ethane factor for reactor ${flag} must be a non-negative number.`);
+            }
+        }
+    }
+
+    if (set.fittedTemperatureRange !== undefined) {
+        const range = set.fittedTemperatureRange;
+        if (!Array.isArray(range) || range.length !== 2 || !range.every(t => Number.isFinite(t) && t > 0) || range[0] > range[1]) {
+            errors.push('Field "fittedTemperatureRange" must be [min, max] with 0 < min <= max (K).');
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Parses and validates a kinetic parameter set from JSON text.
+ * @param json The JSON text.
+ * @returns The parameter set.
+ * @throws Error listing every validation problem if the set is invalid.
+ */
+export function parseKineticParameterSet(json: string): KineticParameterSet {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (e) {
+        throw new Error(`Invalid JSON in kinetic parameter set: ${(e as Error).message}`);
+    }
+    const errors = validateKineticParameterSet(data);
+    if (errors.length > 0) {
+        throw new Error(`Invalid kinetic parameter set:\n - ${errors.join('\n - ')}`);
+    }
+    return data as KineticParameterSet;
+}
+
+/**
+ * Serializes a kinetic parameter set to formatted JSON text.
+ */
+export function serializeKineticParameterSet(parameters: KineticParameterSet): string {
+    return JSON.stringify(parameters, null, 2);
+}
@@ -0,0 +1,192 @@
+/**
+ * @file levenbergMarquardt.ts
+ *
+ * Bound-constrained nonlinear least squares by the Levenberg-Marquardt method.
+ * Minimizes sum(r_i(x)^2) over lower <= x <= upper, with a finite-difference Jacobian.
+ */
+import {
+    invertMatrix,
+    normalMatrix,
+    numericalJacobian,
+    solveLinearSystem,
+    transposeTimesVector,
+    type Matrix,
+    type Vector,
+} from './linearAlgebra';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/** Residual function: maps the parameter vector to the residual vector. */
+export type ResidualFunction = (x: Vector) => Vector;
+
+/**
+ * Options of the least-squares solver. All fields are optional.
+ */
+export interface LeastSquaresOptions {
+    lower?: Vector;             // Lower bounds (default -Infinity)
+    upper?: Vector;             // Upper bounds (default +Infinity)
+    maxIterations?: number;     // Default 100
+    tolerance?: number;         // Relative change in the sum of squares and step size (default 1e-10)
+    initialDamping?: number;    // Initial damping factor relative to diag(J^T J) (default 1e-3)
+    stepScale?: Vector;         // Typical magnitude of each parameter, for finite differences
+}
+
+/**
+ * Result of a least-squares fit.
+ */
+export interface LeastSquaresResult {
+    x: Vector;                  // Best parameters found
+    residuals: Vector;          // Residuals at x
+    jacobian: Matrix;           // Jacobian of the residuals at x
+    sumOfSquares: number;
+    iterations: number;
+    converged: boolean;
+    message: string;
+}
+
+
+// ===================================================================================
+// 2. SOLVER
+// ===================================================================================
+
+/**
+ * Minimizes the sum of squared residuals with the Levenberg-Marquardt method.
+ * Trial points are projected onto the bounds, so the result always satisfies them.
+ * @param residualFunction The residual function.
+ * @param x0 The starting parameters.
+ * @param options Bounds and solver controls.
+ * @returns The best parameters, residuals and convergence information.
+ */
+export function levenbergMarquardt(residualFunction: ResidualFunction, x0: Vector, options: LeastSquaresOptions = {}): LeastSquaresResult {
+    const n = x0.length;
+    const lower = options.lower ?? new Array<number>(n).fill(-Infinity);
+    const upper = options.upper ?? new Array<number>(n).fill(Infinity);
+    const maxIterations = options.maxIterations ?? 100;
+    const tolerance = options.tolerance ?? 1e-10;
+    const project = (x: Vector) => x.map((v, i) => Math.min(Math.max(v, lower[i]), upper[i]));
+
+    let x = project(x0);
+    let residuals = residualFunction(x);
+    let sumOfSquares = sumSquares(residuals);
+    if (!Number.isFinite(sumOfSquares)) {
+        throw new Error('Residuals are not finite at the starting point.');
+    }
+
+    let damping = options.initialDamping ?? 1e-3;
+    let jacobian = numericalJacobian(residualFunction, x, residuals, options.stepScale);
+    let iterations = 0;
+    let converged = false;
+    let message = `Maximum number of iterations (${maxIterations}) reached.`;
+
+    while (iterations < maxIterations) {
+        iterations++;
+        const JtJ = normalMatrix(jacobian);
+        const gradient = transposeTimesVector(jacobian, residuals);
+
+        // Gradient test (scaled by the size of the residuals)
+        const gradientNorm = Math.max(...gradient.map((g, i) => Math.abs(g) * Math.sqrt(Math.max(JtJ[i][i], 0))));
+        if (gradientNorm <= tolerance * Math.max(sumOfSquares, Number.MIN_VALUE)) {
+            converged = true;
+            message = 'Gradient is zero to working precision.';
+            break;
+        }
+
+        // Inner loop: increase damping until the sum of squares decreases
+        let improved = false;
+        let candidate = x;
+        let candidateResiduals = residuals;
+        let candidateSum = sumOfSquares;
+        for (let attempt = 0; attempt < 30; attempt++) {
+            const A = JtJ.map((row, i) => row.map((v, j) => (i === j ? v + damping * Math.max(v, 1e-12) : v)));
+            let step: Vector;
+            try {
+                step = solveLinearSystem(A, gradient.map(g => -g));
+            } catch {
+                damping *= 10;
+                continue;
+            }
+            candidate = project(x.map((v, i) => v + step[i]));
+            candidateResiduals = residualFunction(candidate);
+            candidateSum = sumSquares(candidateResiduals);
+            if (Number.isFinite(candidateSum) && candidateSum < sumOfSquares) {
+                improved = true;
+                break;
+            }
+            damping *= 4;
+        }
+
+        if (!improved) {
+            converged = true;
+            message = 'No further decrease of the sum of squares is possible.';
+            break;
+        }
+
+        const relativeDecrease = (sumOfSquares - candidateSum) / Math.max(sumOfSquares, Number.MIN_VALUE);
+        const relativeStep = Math.max(...candidate.map((v, i) => Math.abs(v - x[i]) / (Math.abs(x[i]) + tolerance)));
+        x = candidate;
+        residuals = candidateResiduals;
+        sumOfSquares = candidateSum;
+        damping = Math.max(damping / 3, 1e-12);
+        jacobian = numericalJacobian(residualFunction, x, residuals, options.stepScale);
+
+        if (relativeDecrease <= tolerance || relativeStep <= tolerance) {
+            converged = true;
+            message = 'Relative change of the sum of squares or parameters below tolerance.';
+            break;
+        }
+    }
+
+    return { x, residuals, jacobian, sumOfSquares, iterations, converged, message };
+}
+
+
+// ===================================================================================
+// 3. STATISTICS OF THE FIT
+// ===================================================================================
+
+/**
+ * Estimates the parameter covariance matrix s^2 (J^T J)^-1 with s^2 = SSR / (m - n).
+ * Parameters the data cannot identify (zero sensitivity) get NaN entries.
+ * @param jacobian Jacobian of the residuals at the solution (m x n).
+ * @param sumOfSquares Sum of squared residuals at the solution.
+ * @returns The covariance matrix (n x n).
+ */
+export function parameterCovariance(jacobian: Matrix, sumOfSquares: number): Matrix {
+    const m = jacobian.length;
+    const n = m > 0 ? jacobian[0].length : 0;
+    const dof = m - n;
+    const variance = dof > 0 ? sumOfSquares / dof : NaN;
+    const JtJ = normalMatrix(jacobian);
+
+    // Invert only the identifiable part of J^T J
+    const identifiable = JtJ.map((row, i) => row[i] > 0);
+    const index = identifiable.flatMap((ok, i) => (ok ? [i] : []));
+    const covariance: Matrix = Array.from({ length: n }, () => new Array<number>(n).fill(NaN));
+    if (index.length === 0) return covariance;
+
+    let inverse: Matrix;
+    try {
+        inverse = invertMatrix(index.map(i => index.map(j => JtJ[i][j])));
+    } catch {
+        return covariance;
+    }
+    index.forEach((i, a) => {
+        index.forEach((j, b) => {
+            covariance[i][j] = variance * inverse[a][b];
+        });
+    });
+    return covariance;
+}
+
+/**
+ * Converts a covariance matrix into a correlation matrix.
+ */
+export function correlationMatrix(covariance: Matrix): Matrix {
+    return covariance.map((row, i) => row.map((v, j) => v / Math.sqrt(covariance[i][i] * covariance[j][j])));
+}
+
+function sumSquares(v: Vector): number {
+    return v.reduce((sum, r) => sum + r * r, 0);
+}
@@ -0,0 +1,221 @@
+/**
+ * @file linearAlgebra.ts
+ *
+ * Small dense linear algebra toolbox used by the numerical solvers (ODE integration,
+ * Newton iterations). Matrices are plain row-major arrays of arrays.
+ */
+
+// ===================================================================================
+// 1. TYPES
+// ===================================================================================
+
+export type Vector = number[];
+export type Matrix = number[][];
+
+/**
+ * Result of an LU decomposition with partial pivoting (PA = LU).
+ * L and U are stored together in `lu`; the unit diagonal of L is implicit.
+ */
+export interface LUDecomposition {
+    lu: Matrix;
+    pivots: number[];
+}
+
+
+// ===================================================================================
+// 2. DECOMPOSITION AND SOLVERS
+// ===================================================================================
+
+/**
+ * Factorizes a square matrix using Gaussian elimination with partial pivoting.
+ * @param A The square matrix to factorize (not modified).
+ * @returns The combined LU factors and the row permutation.
+ * @throws Error if the matrix is singular to working precision.
+ */
+export function luDecompose(A: Matrix): LUDecomposition {
+    const n = A.length;
+    const lu = A.map(row => row.slice());
+    const pivots = Array.from({ length: n }, (_, i) => i);
+
+    for (let k = 0; k < n; k++) {
+        // Find the pivot row
+        let p = k;
+        let maxValue = Math.abs(lu[k][k]);
+        for (let i = k + 1; i < n; i++) {
+            const value = Math.abs(lu[i][k]);
+            if (value > maxValue) {
+                maxValue = value;
+                p = i;
+            }
+        }
+        if (maxValue === 0 || !Number.isFinite(maxValue)) {
+            throw new Error(`Matrix is singular (zero pivot in column ${k}).`);
+        }
+        if (p !== k) {
+            [lu[k], lu[p]] = [lu[p], lu[k]];
+            [pivots[k], pivots[p]] = [pivots[p], pivots[k]];
+        }
+
+        // Eliminate below the pivot
+        for (let i = k + 1; i < n; i++) {
+            const factor = lu[i][k] / lu[k][k];
+            lu[i][k] = factor;
+            if (factor === 0) continue;
+            for (let j = k + 1; j < n; j++) {
+                lu[i][j] -= factor * lu[k][j];
+            }
+        }
+    }
+
+    return { lu, pivots };
+}
+
+/**
+ * Solves A x = b using a previously computed LU decomposition of A.
+ * @param decomposition The LU factors of A.
+ * @param b The right-hand side vector.
+ * @returns The solution vector x.
+ */
+export function luSolve(decomposition: LUDecomposition, b: Vector): Vector {
+    const { lu, pivots } = decomposition;
+    const n = lu.length;
+    const x = pivots.map(p => b[p]);
+
+    // Forward substitution (L has a unit diagonal)
+    for (let i = 0; i < n; i++) {
+        let sum = x[i];
+        for (let j = 0; j < i; j++) sum -= lu[i][j] * x[j];
+        x[i] = sum;
+    }
+
+    // Backward substitution
+    for (let i = n - 1; i >= 0; i--) {
+        let sum = x[i];
+        for (let j = i + 1; j < n; j++) sum -= lu[i][j] * x[j];
+        x[i] = sum / lu[i][i];
+    }
+
+    return x;
+}
+
+/**
+ * Convenience wrapper that solves A x = b in one call.
+ */
+export function solveLinearSystem(A: Matrix, b: Vector): Vector {
+    return luSolve(luDecompose(A), b);
+}
+
+
+/**
+ * Cholesky factorization A = L L^T of a symmetric positive definite matrix.
+ * @param A The symmetric matrix (only the lower triangle is read).
+ * @returns The lower triangular factor L.
+ * @throws Error if the matrix is not positive definite.
+ */
+export function choleskyDecompose(A: Matrix): Matrix {
+    const n = A.length;
+    const L: Matrix = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+    for (let j = 0; j < n; j++) {
+        let diagonal = A[j][j];
+        for (let k = 0; k < j; k++) diagonal -= L[j][k] * L[j][k];
+        if (!(diagonal > 0)) {
+            throw new Error(`Matrix is not positive definite (pivot ${j}).`);
+        }
+        L[j][j] = Math.sqrt(diagonal);
+        for (let i = j + 1; i < n; i++) {
+            let sum = A[i][j];
+            for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+            L[i][j] = sum / L[j][j];
+        }
+    }
+    return L;
+}
+
+// ===================================================================================
+// 3. NUMERICAL DIFFERENTIATION
+// ===================================================================================
+
+/**
+ * Approximates the Jacobian matrix J[i][j] = d f_i / d x_j by forward differences.
+ * @param f The vector function to differentiate.
+ * @param x The point at which the Jacobian is evaluated.
+ * @param fx Optional value of f(x), to save one function evaluation.
+ * @param typicalScale Optional per-variable magnitude used when x_j is (close to) zero.
+ * @returns The Jacobian matrix.
+ */
+export function numericalJacobian(f: (x: Vector) => Vector, x: Vector, fx?: Vector, typicalScale?: Vector): Matrix {
+    const f0 = fx ?? f(x);
+    const n = x.length;
+    const m = f0.length;
+    const sqrtEps = Math.sqrt(Number.EPSILON);
+    const J: Matrix = Array.from({ length: m }, () => new Array<number>(n).fill(0));
+
+    for (let j = 0; j < n; j++) {
+        const scale = Math.max(Math.abs(x[j]), typicalScale ? typicalScale[j] : 0, 1e-30);
+        const xPerturbed = x.slice();
+        xPerturbed[j] = x[j] + sqrtEps * scale;
+        const delta = xPerturbed[j] - x[j]; // Use the representable step to reduce round-off
+        const f1 = f(xPerturbed);
+        for (let i = 0; i < m; i++) {
+            J[i][j] = (f1[i] - f0[i]) / delta;
+        }
+    }
+
+    return J;
+}
+
+
+// ===================================================================================
+// 4. MATRIX HELPERS
+// ===================================================================================
+
+/**
+ * Returns the transpose of a matrix.
+ */
+export function transpose(A: Matrix): Matrix {
+    if (A.length === 0) return [];
+    return A[0].map((_, j) => A.map(row => row[j]));
+}
+
+/**
+ * Computes A^T A for an m x n matrix A (the n x n normal matrix).
+ */
+export function normalMatrix(A: Matrix): Matrix {
+    const n = A.length > 0 ? A[0].length : 0;
+    const result: Matrix = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+    for (const row of A) {
+        for (let i = 0; i < n; i++) {
+            if (row[i] === 0) continue;
+            for (let j = i; j < n; j++) {
+                result[i][j] += row[i] * row[j];
+            }
+        }
+    }
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j < i; j++) result[i][j] = result[j][i];
+    }
+    return result;
+}
+
+/**
+ * Computes A^T v for an m x n matrix A and a vector of length m.
+ */
+export function transposeTimesVector(A: Matrix, v: Vector): Vector {
+    const n = A.length > 0 ? A[0].length : 0;
+    const result = new Array<number>(n).fill(0);
+    A.forEach((row, i) => {
+        for (let j = 0; j < n; j++) result[j] += row[j] * v[i];
+    });
+    return result;
+}
+
+/**
+ * Inverts a square matrix through its LU decomposition.
+ * @throws Error if the matrix is singular.
+ */
+export function invertMatrix(A: Matrix): Matrix {
+    const decomposition = luDecompose(A);
+    const n = A.length;
+    const columns = Array.from({ length: n }, (_, j) => luSolve(decomposition, Array.from({ length: n }, (_, i) => (i === j ? 1 : 0))));
+    return transpose(columns);
+}
@@ -0,0 +1,300 @@
+/**
+ * @file mixtureProperties.ts
+ *
+ * Properties of mixtures of library components, e.g. the isobutane slurry diluent with
+ * dissolved ethylene, 1-hexene and hydrogen, from the pure-component data of
+ * 'physicalProperties.ts' and standard mixing rules:
+ * - molecular weight, heat capacity and enthalpy: ideal mixing (mole-fraction averages);
+ * - liquid viscosity: Grunberg–Nissan, ln(mu) = sum x_i ln(mu_i) + sum_i<j x_i x_j G_ij;
+ * - vapor viscosity: Wilke;
+ * - liquid density: Rackett equation with Kay's-rule pseudocritical constants;
+ * - vapor density: ideal gas at the given pressure.
+ *
+ * Pure-component viscosities come from the 'Liquid viscosity' and 'Vapor viscosity'
+ * correlations of the library when a component has them, and otherwise are estimated
+ * from the critical constants (Letsou–Stiel for the liquid, Lucas for the vapor). The
+ * estimate also replaces correlations without a validity interval, and liquid
+ * correlations above the critical temperature (e.g. ethylene dissolved at reactor conditions).
+ * Heat capacity and enthalpy are those of the ideal gas; the enthalpy includes the
+ * enthalpy of formation ('thermoFunctions.ts'), so mixtures of different components can be compared.
+ */
+import { calculateAllProperties, type ComponentConstants, type PureComponent } from './physicalProperties';
+import { componentLibrary } from './componentData';
+import { PhysicalProperty } from './propertyCatalog';
+import { idealGasFunctions } from './thermoFunctions';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * Composition of a mixture: fractions by component library name. The fractions are
+ * normalized, so they may also be given as amounts (e.g. flows).
+ */
+export interface MixtureComposition {
+    basis: 'mole' | 'mass';
+    fractions: Record<string, number>;
+}
+
+/**
+ * Options of the mixture calculation. All fields are optional.
+ */
+export interface MixtureOptions {
+    pressure?: number;                  // For the vapor density (bar, default 1.01325)
+    viscosityInteraction?: Record<string, number>; // Grunberg–Nissan G_ij by 'A|B' (default 0)
+}
+
+/** Where a pure-component value comes from. */
+export type PropertySource = 'library' | 'estimate';
+
+/**
+ * Contribution of one component to the mixture.
+ */
+export interface MixtureComponent {
+    name: string;
+    moleFraction: number;
+    massFraction: number;
+    molecularWeight: number;            // g/mol
+    heatCapacity: number;               // Ideal gas (J/mol/K)
+    enthalpy: number;                   // Ideal gas, incl. formation (J/mol)
+    liquidViscosity: number;            // Pa·s
+    liquidViscositySource: PropertySource;
+    vaporViscosity: number;             // Pa·s
+    vaporViscositySource: PropertySource;
+}
+
+/**
+ * Properties of a mixture at one temperature.
+ */
+export interface MixtureProperties {
+    temperature: number;                // K
+    pressure: number;                   // bar
+    molecularWeight: number;            // g/mol
+    heatCapacity: number;               // Ideal gas (J/mol/K)
+    massHeatCapacity: number;           // Ideal gas (J/kg/K)
+    enthalpy: number;                   // Ideal gas, incl. formation (J/mol)
+    liquidViscosity: number;            // Pa·s
+    vaporViscosity: number;             // Pa·s
+    liquidDensity: number;              // kg/m3; NaN at or above the pseudocritical temperature
+    liquidMolarDensity: number;         // mol/L; NaN at or above the pseudocritical temperature
+    vaporDensity: number;               // Ideal gas (kg/m3)
+    vaporMolarDensity: number;          // Ideal gas (mol/L)
+    components: MixtureComponent[];
+}
+
+const GAS_CONSTANT = 8.314462618;       // J/mol/K
+const HEAT_CAPACITY = PhysicalProperty.VaporHeatCapacity;
+const LIQUID_VISCOSITY = PhysicalProperty.LiquidViscosity;
+const VAPOR_VISCOSITY = PhysicalProperty.VaporViscosity;
+
+
+// ===================================================================================
+// 2. COMPOSITION
+// ===================================================================================
+
+/**
+ * Normalized mole fractions of a composition.
+ * @throws Error for unknown components, negative fractions or an empty mixture.
+ */
+export function toMoleFractions(composition: MixtureComposition): Map<string, number> {
+    const amounts = new Map<string, number>();
+    for (const [name, fraction] of Object.entries(composition.fractions)) {
+        const component = componentLibrary.get(name);
+        if (!component) {
+            throw new Error(`Component "${name}" is not in the library.`);
+        }
+        if (!Number.isFinite(fraction) || fraction < 0) {
+            throw new Error(`Fraction of ${name} must be a non-negative number, got ${fraction}.`);
+        }
+        const moles = composition.basis === 'mass' ? fraction / component.constants.molecular_weight : fraction;
+        amounts.set(name, (amounts.get(name) ?? 0) + moles);
+    }
+    const total = [...amounts.values()].reduce((a, b) => a + b, 0);
+    if (!(total > 0)) {
+        throw new Error('The mixture has no components with a positive fraction.');
+    }
+    return new Map([...amounts].map(([name, moles]) => [name, moles / total]));
+}
+
+
+// ===================================================================================
+// 3. PURE-COMPONENT ESTIMATES
+// ===================================================================================
+
+/**
+ * Low-pressure gas viscosity of a nonpolar component by the method of Lucas.
+ * @returns The viscosity in Pa·s.
+ */
+export function lucasVaporViscosity(constants: ComponentConstants, T: number): number {
+    const Tr = T / constants.critical_temperature;
+    const xi = 0.176 * (constants.critical_temperature / (constants.molecular_weight ** 3 * constants.critical_pressure ** 4)) ** (1 / 6);
+    const etaXi = 0.807 * Tr ** 0.618 - 0.357 * Math.exp(-0.449 * Tr) + 0.340 * Math.exp(-4.058 * Tr) + 0.018;
+    return (etaXi / xi) * 1e-7; // µP -> Pa·s
+}
+
+/**
+ * Saturated liquid viscosity by the corresponding-states method of Letsou and Stiel,
+ * made for 0.76 < Tr < 0.98. Above Tr = 0.98 (e.g. gases dissolved in a liquid above
+ * their critical temperature) the value at Tr = 0.98 serves as hypothetical liquid viscosity.
+ * @returns The viscosity in Pa·s.
+ */
+export function letsouStielLiquidViscosity(constants: ComponentConstants, T: number): number {
+    const Tr = Math.min(T / constants.critical_temperature, 0.98);
+    const xi = 0.176 * (constants.critical_temperature / (constants.molecular_weight ** 3 * constants.critical_pressure ** 4)) ** (1 / 6);
+    const etaXi0 = 1e-3 * (2.648 - 3.725 * Tr + 1.309 * Tr ** 2);
+    const etaXi1 = 1e-3 * (7.425 - 13.39 * Tr + 5.933 * Tr ** 2);
+    return ((etaXi0 + constants.acentric_factor * etaXi1) / xi) * 1e-3; // cP -> Pa·s
+}
+
+/**
+ * Rackett compressibility factor from the acentric factor (Yamada and Gunn).
+ */
+export function rackettCompressibility(acentricFactor: number): number {
+    return 0.29056 - 0.08775 * acentricFactor;
+}
+
+
+// ===================================================================================
+// 4. MIXING RULES
+// ===================================================================================
+
+/**
+ * Liquid mixture viscosity by Grunberg–Nissan.
+ * @param x Mole fractions.
+ * @param mu Pure-component viscosities (any unit).
+ * @param G Interaction parameters G[i][j] (default: all 0, i.e. the Arrhenius rule).
+ */
+export function grunbergNissanViscosity(x: number[], mu: number[], G?: number[][]): number {
+    let lnMu = 0;
+    for (let i = 0; i < x.length; i++) {
+        if (x[i] === 0) continue;
+        lnMu += x[i] * Math.log(mu[i]);
+        for (let j = i + 1; j < x.length; j++) {
+            lnMu += x[i] * x[j] * (G?.[i][j] ?? 0);
+        }
+    }
+    return Math.exp(lnMu);
+}
+
+/**
+ * Gas mixture viscosity by Wilke.
+ * @param y Mole fractions.
+ * @param mu Pure-component viscosities (any unit).
+ * @param M Molecular weights (g/mol).
+ */
+export function wilkeViscosity(y: number[], mu: number[], M: number[]): number {
+    let result = 0;
+    for (let i = 0; i < y.length; i++) {
+        if (y[i] === 0) continue;
+        let denominator = 0;
+        for (let j = 0; j < y.length; j++) {
+            const phi = (1 + Math.sqrt(mu[i] / mu[j]) * (M[j] / M[i]) ** 0.25) ** 2 / Math.sqrt(8 * (1 + M[i] / M[j]));
+            denominator += y[j] * phi;
+        }
+        result += (y[i] * mu[i]) / denominator;
+    }
+    return result;
+}
+
+/**
+ * Saturated liquid molar volume of a mixture by the Rackett equation, with Kay's-rule
+ * pseudocritical temperature and mole-fraction averages of Tc/Pc and Z_RA.
+ * @returns The molar volume in m3/mol, NaN at or above the pseudocritical temperature.
+ */
+export function rackettMolarVolume(x: number[], constants: ComponentConstants[], T: number): number {
+    let Tcm = 0, TcOverPc = 0, ZRA = 0;
+    constants.forEach((c, i) => {
+        Tcm += x[i] * c.critical_temperature;
+        TcOverPc += x[i] * c.critical_temperature / (c.critical_pressure * 1e5);
+        ZRA += x[i] * rackettCompressibility(c.acentric_factor);
+    });
+    const Tr = T / Tcm;
+    if (Tr >= 1) return NaN;
+    return GAS_CONSTANT * TcOverPc * ZRA ** (1 + (1 - Tr) ** (2 / 7));
+}
+
+
+// ===================================================================================
+// 5. MIXTURE PROPERTIES
+// ===================================================================================
+
+/**
+ * Calculates the properties of a mixture.
+ * @param composition Mole or mass fractions by component library name.
+ * @param T The temperature in Kelvin.
+ * @param options Pressure for the vapor density and Grunberg–Nissan interaction parameters.
+ * @returns The mixture properties and the contribution of every component.
+ * @throws Error for unknown components or components without a heat capacity correlation.
+ */
+export function calculateMixtureProperties(composition: MixtureComposition, T: number, options: MixtureOptions = {}): MixtureProperties {
+    if (!(T > 0)) {
+        throw new Error(`Temperature must be positive, got ${T} K.`);
+    }
+    const pressure = options.pressure ?? 1.01325;
+    const fractions = toMoleFractions(composition);
+    const names = [...fractions.keys()];
+    for (const name of names) {
+        if (!componentLibrary.get(name)!.properties.has(HEAT_CAPACITY)) {
+            throw new Error(`No heat capacity correlation for component "${name}".`);
+        }
+    }
+    const pure = calculateAllProperties(names, T);
+    const x = names.map(name => fractions.get(name)!);
+    const M = names.map(name => componentLibrary.get(name)!.constants.molecular_weight);
+    const molecularWeight = x.reduce((sum, xi, i) => sum + xi * M[i], 0);
+
+    const components: MixtureComponent[] = names.map((name, i) => {
+        const component = pure.get(name)!;
+        // A liquid correlation says nothing above the critical temperature, whatever its extrapolation gives
+        const liquid = libraryOrEstimate(component, LIQUID_VISCOSITY, () => letsouStielLiquidViscosity(component.constants, T), T < component.constants.critical_temperature);
+        const vapor = libraryOrEstimate(component, VAPOR_VISCOSITY, () => lucasVaporViscosity(component.constants, T));
+        return {
+            name,
+            moleFraction: x[i],
+            massFraction: (x[i] * M[i]) / molecularWeight,
+            molecularWeight: M[i],
+            heatCapacity: component.calculated_properties.get(HEAT_CAPACITY)!.value / 1000, // J/kmol/K -> J/mol/K
+            enthalpy: idealGasFunctions(name, T).enthalpy,
+            liquidViscosity: liquid.value,
+            liquidViscositySource: liquid.source,
+            vaporViscosity: vapor.value,
+            vaporViscositySource: vapor.source,
+        };
+    });
+
+    const G = names.map(a => names.map(b =>
+        options.viscosityInteraction?.[`${a}|${b}`] ?? options.viscosityInteraction?.[`${b}|${a}`] ?? 0));
+    const heatCapacity = components.reduce((sum, c) => sum + c.moleFraction * c.heatCapacity, 0);
+    const liquidVolume = rackettMolarVolume(x, names.map(name => componentLibrary.get(name)!.constants), T); // m3/mol
+    const vaporMolarDensity = (pressure * 1e5) / (GAS_CONSTANT * T) / 1000; // mol/L
+
+    return {
+        temperature: T,
+        pressure,
+        molecularWeight,
+        heatCapacity,
+        massHeatCapacity: (heatCapacity / molecularWeight) * 1000,
+        enthalpy: components.reduce((sum, c) => sum + c.moleFraction * c.enthalpy, 0),
+        liquidViscosity: grunbergNissanViscosity(x, components.map(c => c.liquidViscosity), G),
+        vaporViscosity: wilkeViscosity(x, components.map(c => c.vaporViscosity), M),
+        liquidDensity: molecularWeight / liquidVolume / 1000,
+        liquidMolarDensity: 1 / liquidVolume / 1000,
+        vaporDensity: vaporMolarDensity * molecularWeight,
+        vaporMolarDensity,
+        components,
+    };
+}
+
+// A library value is replaced by the estimate if it failed (e.g. beyond its correlation's validity),
+// if the correlation has no validity interval, or if the caller rules it out (applicable = false)
+function libraryOrEstimate(
+    component: PureComponent,
+    property: PhysicalProperty,
+    estimate: () => number,
+    applicable = true,
+): { value: number; source: PropertySource } {
+    const result = component.calculated_properties.get(property);
+    return applicable && result && result.status !== 'failed' && result.interval !== null
+        ? { value: result.value, source: 'library' }
+        : { value: estimate(), source: 'estimate' };
+}
@@ -0,0 +1,252 @@
+/**
+ * @file modelValidation.ts
+ *
+ * Validation of the model inputs and numerical diagnostics of the model outputs.
+ * `calculateReactionRates` evaluates any numbers it is given; the checks here report
+ * inputs that are non-physical or outside the validity of the kinetic parameter set,
+ * and outputs that are not finite or do not close the mass balance.
+ *
+ * Errors mark results that must not be used; warnings mark results that are computed
+ * but should be interpreted with care.
+ */
+import { calculateReactionRates, type ZieglerModelInputs, type ZieglerModelOutputs } from './zieglerModel';
+import { defaultKineticParameters, type KineticParameterSet } from './kineticParameters';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * Machine-readable kind of a validation issue.
+ */
+export type ValidationCode =
+    | 'NON_FINITE_INPUT'                    // NaN or Infinity in an input
+    | 'NEGATIVE_CONCENTRATION'
+    | 'NON_POSITIVE_TEMPERATURE'
+    | 'NON_POSITIVE_VOLUME'
+    | 'UNKNOWN_REACTOR_FLAG'                // No ethane factor for the reactor flag (eth would be 0)
+    | 'TEMPERATURE_OUTSIDE_FITTED_RANGE'
+    | 'NON_PHYSICAL_MOMENTS'                // Y1 < Y0 or Y2 < Y1^2 / Y0
+    | 'UNDEFINED_COMPOSITION'               // A fraction is only kept finite by the 1E-25 guard
+    | 'NON_FINITE_OUTPUT'
+    | 'MASS_BALANCE';                       // Monomer consumption and polymer formation disagree
+
+/**
+ * One problem found in the inputs or outputs.
+ */
+export interface ValidationIssue {
+    severity: ValidationSeverity;
+    code: ValidationCode;
+    field: string;                          // Name of the input or output concerned
+    message: string;
+}
+
+/**
+ * Outputs of a checked calculation together with every issue found.
+ */
+export interface CheckedCalculation {
+    outputs: ZieglerModelOutputs | null;    // null if the inputs contain errors
+    issues: ValidationIssue[];
+}
+
+/** Inputs that are concentrations (mol/L) and must not be negative. */
+const CONCENTRATION_FIELDS = [
+    'hydrogen', 'ethylene', 'hexene', 'catalyst', 'cr6', 'cocatalyst',
+    'activeSites_z0_1', 'activeSites_z0_2',
+    'livingPolymerEnd_z1_1', 'livingPolymerEnd_z1_2', 'livingPolymerEnd_z2_1', 'livingPolymerEnd_z2_2',
+    'livingPolymerMoment0_y0_1', 'livingPolymerMoment0_y0_2',
+    'livingPolymerMoment1_y1_1', 'livingPolymerMoment1_y1_2',
+    'livingPolymerMoment2_y2_1', 'livingPolymerMoment2_y2_2',
+] as const satisfies readonly (keyof ZieglerModelInputs)[];
+
+// Relative tolerances of the consistency checks
+const MOMENT_TOLERANCE = 1e-9;
+const MASS_BALANCE_TOLERANCE = 1e-6;
+
+// Molecular weights of the monomer units, identical to those used in zieglerModel.ts
+const MC2 = 28; // Ethylene (g/mol)
+const MC6 = 84; // 1-Hexene (g/mol)
+
+
+// ===================================================================================
+// 2. INPUT VALIDATION
+// ===================================================================================
+
+/**
+ * Checks the model inputs against physical limits and the validity of the parameter set.
+ * @param inputs The model inputs.
+ * @param parameters The kinetic parameter set the inputs will be evaluated with.
+ * @returns All issues found; empty if the inputs are valid.
+ */
+export function validateInputs(inputs: ZieglerModelInputs, parameters: KineticParameterSet = defaultKineticParameters): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    for (const [field, value] of Object.entries(inputs)) {
+        if (!Number.isFinite(value)) {
+            issues.push(error('NON_FINITE_INPUT', field, `${field} is ${value}.`));
+        }
+    }
+
+    for (const field of CONCENTRATION_FIELDS) {
+        if (inputs[field] < 0) {
+            issues.push(error('NEGATIVE_CONCENTRATION', field, `${field} is negative (${inputs[field]} mol/L).`));
+        }
+    }
+
+    if (inputs.temperature <= 0) {
+        issues.push(error('NON_POSITIVE_TEMPERATURE', 'temperature', `Temperature must be positive (got ${inputs.temperature} K).`));
+    } else if (parameters.fittedTemperatureRange) {
+        const [low, high] = parameters.fittedTemperatureRange;
+        if (inputs.temperature < low || inputs.temperature > high) {
+            issues.push(warning(
+                'TEMPERATURE_OUTSIDE_FITTED_RANGE',
+                'temperature',
+                `Temperature ${inputs.temperature.toFixed(2)} K is outside the range ${low}-${high} K the parameter set "${parameters.name}" was fitted to.`,
+            ));
+        }
+    }
+
+    if (inputs.volume <= 0) {
+        issues.push(error('NON_POSITIVE_VOLUME', 'volume', `Reactor volume must be positive (got ${inputs.volume} L).`));
+    }
+
+    if (!(inputs.reactorFlag in parameters.ethaneFactors)) {
+        issues.push(warning(
+            'UNKNOWN_REACTOR_FLAG',
+            'reactorFlag',
+            `Reactor flag ${inputs.reactorFlag} has no ethane factor in "${parameters.name}"; ethane formation is taken as zero.`,
+        ));
+    }
+
+    issues.push(...checkMoments(inputs));
+
+    // Fractions that the model only keeps finite with its 1E-25 guards
+    if (inputs.ethylene === 0 && inputs.hexene === 0) {
+        issues.push(warning('UNDEFINED_COMPOSITION', 'ethylene', 'No monomer present; the monomer fractions f1 and f2 are undefined and taken as zero.'));
+    }
+    for (const site of [1, 2] as const) {
+        const ends = inputs[`livingPolymerEnd_z1_${site}`] + inputs[`livingPolymerEnd_z2_${site}`];
+        if (ends <= 0 && inputs[`livingPolymerMoment0_y0_${site}`] > 0) {
+            issues.push(warning(
+                'UNDEFINED_COMPOSITION',
+                `livingPolymerEnd_z1_${site}`,
+                `Living chains exist on site ${site} but no chain ends; the end-group fractions are undefined.`,
+            ));
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * A distribution of chains with at least one segment each satisfies Y1 >= Y0 and,
+ * by the Cauchy-Schwarz inequality, Y2 * Y0 >= Y1^2.
+ */
+function checkMoments(inputs: ZieglerModelInputs): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    for (const site of [1, 2] as const) {
+        const y0 = inputs[`livingPolymerMoment0_y0_${site}`];
+        const y1 = inputs[`livingPolymerMoment1_y1_${site}`];
+        const y2 = inputs[`livingPolymerMoment2_y2_${site}`];
+        if (!(y0 > 0)) continue;
+        if (y1 < y0 * (1 - MOMENT_TOLERANCE)) {
+            issues.push(warning(
+                'NON_PHYSICAL_MOMENTS',
+                `livingPolymerMoment1_y1_${site}`,
+                `Y1 < Y0 on site ${site}: the average living chain would be shorter than one segment.`,
+            ));
+        }
+        if (y2 * y0 < y1 * y1 * (1 - MOMENT_TOLERANCE)) {
+            issues.push(warning(
+                'NON_PHYSICAL_MOMENTS',
+                `livingPolymerMoment2_y2_${site}`,
+                `Y2 < Y1²/Y0 on site ${site}: the living chain length distribution would have a negative variance.`,
+            ));
+        }
+    }
+    return issues;
+}
+
+
+// ===================================================================================
+// 3. OUTPUT DIAGNOSTICS
+// ===================================================================================
+
+/**
+ * Checks the model outputs for non-finite values and for closure of the mass balance.
+ * @param outputs The model outputs.
+ * @returns All issues found; empty if the outputs are consistent.
+ */
+export function validateOutputs(outputs: ZieglerModelOutputs): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    for (const [field, value] of Object.entries(outputs)) {
+        if (!Number.isFinite(value)) {
+            issues.push(error('NON_FINITE_OUTPUT', field, `${field} is ${value}.`));
+        }
+    }
+    if (issues.length > 0) return issues;
+
+    // Monomer incorporated into polymer (mol/h): consumption minus the ethylene hydrogenated to ethane
+    const ethyleneToPolymer = -outputs.rateEthylene - outputs.rateEthane;
+    const hexeneToPolymer = -outputs.rateHexene;
+    const monomerToPolymer = ethyleneToPolymer + hexeneToPolymer;
+
+    // Segments formed: growth of the first moments of living and dead polymer (mol/h)
+    const segmentsFormed =
+        outputs.rateLivingPolymerMoment1_y1_1 + outputs.rateLivingPolymerMoment1_y1_2 +
+        outputs.rateDeadPolymerMoment1_x1_1 + outputs.rateDeadPolymerMoment1_x1_2;
+
+    const scale = Math.max(Math.abs(monomerToPolymer), Math.abs(segmentsFormed), Number.MIN_VALUE);
+    if (Math.abs(segmentsFormed - monomerToPolymer) > MASS_BALANCE_TOLERANCE * scale) {
+        issues.push(warning(
+            'MASS_BALANCE',
+            'rateEthylene',
+            `Monomer incorporated (${monomerToPolymer.toExponential(4)} mol/h) differs from segments formed (${segmentsFormed.toExponential(4)} mol/h).`,
+        ));
+    }
+
+    const polymerMass = ethyleneToPolymer * MC2 + hexeneToPolymer * MC6;
+    const massScale = Math.max(Math.abs(polymerMass), Math.abs(outputs.polymerProductionRate), Number.MIN_VALUE);
+    if (Math.abs(outputs.polymerProductionRate - polymerMass) > MASS_BALANCE_TOLERANCE * massScale) {
+        issues.push(warning(
+            'MASS_BALANCE',
+            'polymerProductionRate',
+            `Polymer production rate (${outputs.polymerProductionRate.toExponential(4)} g/h) differs from the mass of monomer incorporated (${polymerMass.toExponential(4)} g/h).`,
+        ));
+    }
+
+    return issues;
+}
+
+/**
+ * Validates the inputs, evaluates the model if they contain no errors and checks the outputs.
+ * @param inputs The model inputs.
+ * @param parameters The kinetic parameter set.
+ * @returns The outputs (null if the inputs are invalid) and all issues found.
+ */
+export function calculateReactionRatesChecked(inputs: ZieglerModelInputs, parameters: KineticParameterSet = defaultKineticParameters): CheckedCalculation {
+    const issues = validateInputs(inputs, parameters);
+    if (hasErrors(issues)) {
+        return { outputs: null, issues };
+    }
+    const outputs = calculateReactionRates(inputs, parameters);
+    return { outputs, issues: [...issues, ...validateOutputs(outputs)] };
+}
+
+/**
+ * True if any of the issues is an error.
+ */
+export function hasErrors(issues: ValidationIssue[]): boolean {
+    return issues.some(issue => issue.severity === 'error');
+}
+
+function error(code: ValidationCode, field: string, message: string): ValidationIssue {
+    return { severity: 'error', code, field, message };
+}
+
+function warning(code: ValidationCode, field: string, message: string): ValidationIssue {
+    return { severity: 'warning', code, field, message };
+}
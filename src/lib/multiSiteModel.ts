@@ -0,0 +1,457 @@
+/**
+ * @file multiSiteModel.ts
+ *
+ * Array-based formulation of the Ziegler-Natta kinetic model for any number of
+ * catalyst site types and monomers. The equations are those of 'zieglerModel.ts'
+ * written with indices instead of hand-unrolled '_1'/'_2' variables:
+ *
+ *   i = monomer at the chain end, k = reacting monomer, j = site type.
+ *
+ * The two-site ethylene/1-hexene model is available as a preset; `calculateReactionRates`
+ * in 'zieglerModel.ts' is this model evaluated with that preset.
+ */
+import type { ZieglerModelInputs, ZieglerModelOutputs } from './zieglerModel';
+import {
+    arrhenius,
+    defaultKineticParameters,
+    type ArrheniusParameters,
+    type KineticParameterSet,
+    type RateConstants,
+} from './kineticParameters';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * A monomer taking part in the polymerization.
+ */
+export interface MonomerDefinition {
+    name: string;
+    molecularWeight: number; // g/mol
+}
+
+/**
+ * Kinetic parameters of a multi-site, multi-monomer catalyst.
+ * Array dimensions: nM = monomers.length, nS = siteFractions.length.
+ */
+export interface MultiSiteKineticParameters {
+    name: string;
+    monomers: MonomerDefinition[];
+    siteFractions: number[];                    // Share of activated sites per site type (sums to 1)
+    activation: { ka: ArrheniusParameters; kaa: ArrheniusParameters; kaH: ArrheniusParameters };
+    initiation: ArrheniusParameters[][];        // [k][j]
+    propagation: ArrheniusParameters[][][];     // [i][k][j]
+    transfer: ArrheniusParameters[][][];        // [i][k][j] transfer to monomer
+    hydrogenTransfer: ArrheniusParameters[][];  // [i][j]
+    termination: ArrheniusParameters[][];       // [i][j]
+    ethane: ArrheniusParameters;                // Ethylene hydrogenation side reaction
+    ethaneFactors: Record<number, number>;      // reactorFlag -> 'eth' constant
+}
+
+/**
+ * Values of the rate constants of a configuration at one temperature, in the array
+ * layout of `MultiSiteKineticParameters`.
+ */
+export interface MultiSiteRateConstants {
+    ka: number;
+    kaa: number;
+    kaH: number;
+    kethane: number;
+    ki: number[][];                 // [k][j]
+    kp: number[][][];               // [i][k][j]
+    kt: number[][][];               // [i][k][j]
+    ktH: number[][];                // [i][j]
+    kte: number[][];                // [i][j]
+}
+
+/**
+ * Inputs of the multi-site model (concentrations in moles/liter).
+ */
+export interface MultiSiteInputs {
+    hydrogen: number;
+    monomers: number[];             // [k]
+    catalyst: number;
+    cr6: number;
+    cocatalyst: number;
+    volume: number;                 // liters
+    temperature: number;            // Kelvin
+    reactorFlag: number;
+    activeSites: number[];          // N0 [j]
+    livingEnds: number[][];         // N [i][j]
+    livingMoments: number[][];      // Y [order 0..2][j]
+}
+
+/**
+ * Reaction rates of the multi-site model (mol/h for the whole reactor).
+ */
+export interface MultiSiteOutputs {
+    polymerProductionRate: number;  // g/h
+    rateHydrogen: number;
+    rateMonomers: number[];         // [k], including the hydrogenation of ethylene
+    rateSegments: number[];         // [k], monomer incorporated into polymer
+    rateEthane: number;             // Ethane formed by ethylene hydrogenation
+    rateCatalyst: number;
+    rateCr6: number;
+    rateCocatalyst: number;
+    rateActiveSites: number[];      // [j]
+    rateLivingEnds: number[][];     // [i][j]
+    rateLivingMoments: number[][];  // [order][j]
+    rateDeadMoments: number[][];    // [order][j]
+    ratePropagation: number[];      // [j], segments added to growing chains
+}
+
+/** Monomers available for multi-monomer configurations. */
+export const MONOMER_LIBRARY: Record<string, MonomerDefinition> = {
+    ETHYLENE: { name: 'ETHYLENE', molecularWeight: 28 },
+    '1-BUTENE': { name: '1-BUTENE', molecularWeight: 56 },
+    '1-HEXENE': { name: '1-HEXENE', molecularWeight: 84 },
+};
+
+
+// ===================================================================================
+// 2. PRESETS AND VALIDATION
+// ===================================================================================
+
+/**
+ * Builds the two-site ethylene/1-hexene configuration from a standard parameter set.
+ * @param set The kinetic parameter set (defaults to the original constants).
+ */
+export function twoSiteTwoMonomerParameters(set: KineticParameterSet = defaultKineticParameters): MultiSiteKineticParameters {
+    const p = set.arrhenius;
+    return {
+        name: set.name,
+        monomers: [MONOMER_LIBRARY.ETHYLENE, MONOMER_LIBRARY['1-HEXENE']],
+        siteFractions: [set.siteFraction, 1 - set.siteFraction],
+        activation: { ka: p.ka, kaa: p.kaa, kaH: p.kaH },
+        initiation: [[p.ki1_1, p.ki1_2], [p.ki2_1, p.ki2_2]],
+        propagation: [
+            [[p.kp11_1, p.kp11_2], [p.kp12_1, p.kp12_2]],
+            [[p.kp21_1, p.kp21_2], [p.kp22_1, p.kp22_2]],
+        ],
+        transfer: [
+            [[p.kt11_1, p.kt11_2], [p.kt12_1, p.kt12_2]],
+            [[p.kt21_1, p.kt21_2], [p.kt22_1, p.kt22_2]],
+        ],
+        hydrogenTransfer: [[p.ktH1_1, p.ktH1_2], [p.ktH2_1, p.ktH2_2]],
+        termination: [[p.kte1_1, p.kte1_2], [p.kte2_1, p.kte2_2]],
+        ethane: p.kethane,
+        ethaneFactors: { ...set.ethaneFactors },
+    };
+}
+
+/**
+ * Checks that all parameter arrays match the number of monomers and site types.
+ * @returns A list of problems; empty if the configuration is consistent.
+ */
+export function validateMultiSiteParameters(parameters: MultiSiteKineticParameters): string[] {
+    const errors: string[] = [];
+    const nM = parameters.monomers.length;
+    const nS = parameters.siteFractions.length;
+    if (nM < 1) errors.push('At least one monomer is required.');
+    if (nS < 1) errors.push('At least one site type is required.');
+
+    const fractionSum = parameters.siteFractions.reduce((a, b) => a + b, 0);
+    if (Math.abs(fractionSum - 1) > 1e-9 || parameters.siteFractions.some(f => f < 0)) {
+        errors.push(`Site fractions must be non-negative and sum to 1 (sum is ${fractionSum}).`);
+    }
+
+    const check2 = (name: string, array: ArrheniusParameters[][]) => {
+        if (array.length !== nM || array.some(row => row.length !== nS)) {
+            errors.push(`"${name}" must be a ${nM} x ${nS} array (monomer x site).`);
+        }
+    };
+    const check3 = (name: string, array: ArrheniusParameters[][][]) => {
+        if (array.length !== nM || array.some(plane => plane.length !== nM || plane.some(row => row.length !== nS))) {
+            errors.push(`"${name}" must be a ${nM} x ${nM} x ${nS} array (end x monomer x site).`);
+        }
+    };
+    check2('initiation', parameters.initiation);
+    check3('propagation', parameters.propagation);
+    check3('transfer', parameters.transfer);
+    check2('hydrogenTransfer', parameters.hydrogenTransfer);
+    check2('termination', parameters.termination);
+    return errors;
+}
+
+
+// ===================================================================================
+// 3. RATE CALCULATION
+// ===================================================================================
+
+/**
+ * Evaluates every rate constant of a configuration at a temperature.
+ * @param parameters The catalyst configuration and kinetic parameters.
+ * @param T The temperature in Kelvin.
+ */
+export function calculateMultiSiteRateConstants(parameters: MultiSiteKineticParameters, T: number): MultiSiteRateConstants {
+    const k = (p: ArrheniusParameters) => arrhenius(p, T);
+    return {
+        ka: k(parameters.activation.ka),
+        kaa: k(parameters.activation.kaa),
+        kaH: k(parameters.activation.kaH),
+        kethane: k(parameters.ethane),
+        ki: parameters.initiation.map(row => row.map(k)),
+        kp: parameters.propagation.map(plane => plane.map(row => row.map(k))),
+        kt: parameters.transfer.map(plane => plane.map(row => row.map(k))),
+        ktH: parameters.hydrogenTransfer.map(row => row.map(k)),
+        kte: parameters.termination.map(row => row.map(k)),
+    };
+}
+
+/**
+ * Calculates the reaction rates of the multi-site, multi-monomer model.
+ * @param inputs Concentrations and operating conditions.
+ * @param parameters The catalyst configuration and kinetic parameters.
+ * @param rateConstants Optional rate constants of `parameters` at the input temperature,
+ *                      already computed by the caller.
+ * @returns All reaction rates in mol/h (production rate in g/h).
+ */
+export function calculateMultiSiteRates(
+    inputs: MultiSiteInputs,
+    parameters: MultiSiteKineticParameters,
+    rateConstants?: MultiSiteRateConstants,
+): MultiSiteOutputs {
+    const { hydrogen: H2, monomers: M, catalyst: S, cr6: S1, cocatalyst: c, volume: V, temperature: T } = inputs;
+    const nM = parameters.monomers.length;
+    const nS = parameters.siteFractions.length;
+    if (M.length !== nM || inputs.activeSites.length !== nS || inputs.livingEnds.length !== nM) {
+        throw new Error(`Inputs do not match the configuration of ${nM} monomers and ${nS} site types.`);
+    }
+
+    const { ka, kaa, kaH, kethane, ki, kp, kt, ktH, kte } = rateConstants ?? calculateMultiSiteRateConstants(parameters, T);
+    const eth = parameters.ethaneFactors[inputs.reactorFlag] ?? 0;
+    const ethyleneIndex = parameters.monomers.findIndex(m => m.name === 'ETHYLENE');
+
+    // --- Monomer and end-group fractions ---
+    const totalMonomerConcentration = M.reduce((a, b) => a + b, 0);
+    const f = M.map(m => m / (totalMonomerConcentration + 1E-25));
+    const phi: number[][] = Array.from({ length: nM }, () => new Array<number>(nS).fill(0));
+    for (let j = 0; j < nS; j++) {
+        let endSum = 0;
+        for (let i = 0; i < nM; i++) endSum += inputs.livingEnds[i][j];
+        let assigned = 0;
+        for (let i = 0; i < nM - 1; i++) {
+            phi[i][j] = inputs.livingEnds[i][j] / (endSum + 1E-25);
+            assigned += phi[i][j];
+        }
+        phi[nM - 1][j] = 1 - assigned; // As in the original model, the last fraction closes the sum
+    }
+
+    // --- Pseudo-constants per site ---
+    const pseudoKi = new Array<number>(nS).fill(0);
+    const pseudoKp = new Array<number>(nS).fill(0);
+    const pseudoKt = new Array<number>(nS).fill(0);
+    const pseudoKtH = new Array<number>(nS).fill(0);
+    const pseudoKte = new Array<number>(nS).fill(0);
+    for (let j = 0; j < nS; j++) {
+        for (let i = 0; i < nM; i++) {
+            pseudoKi[j] += ki[i][j] * f[i];
+            pseudoKtH[j] += ktH[i][j] * phi[i][j];
+            pseudoKte[j] += kte[i][j] * phi[i][j];
+            for (let m = 0; m < nM; m++) {
+                pseudoKp[j] += kp[i][m][j] * f[m] * phi[i][j];
+                pseudoKt[j] += kt[i][m][j] * f[m] * phi[i][j];
+            }
+        }
+    }
+
+    const N0 = inputs.activeSites;
+    const N = inputs.livingEnds;
+    const [Y0, Y1, Y2] = inputs.livingMoments;
+
+    // --- Monomer consumption by the polymerization ---
+    const RM = M.map((Mk, m) => {
+        let rate = 0;
+        for (let j = 0; j < nS; j++) {
+            rate -= N0[j] * Mk * ki[m][j];
+            let growth = 0;
+            for (let i = 0; i < nM; i++) {
+                growth += (kp[i][m][j] + kt[i][m][j]) * phi[i][j];
+            }
+            rate -= Mk * Y0[j] * growth;
+        }
+        return rate;
+    });
+
+    // --- Ethylene hydrogenation (only in configurations containing ethylene) ---
+    const Rethane = ethyleneIndex >= 0 ? kethane * H2 * eth : 0;
+    const RMtotal = RM.map((rate, m) => (m === ethyleneIndex ? rate - Rethane : rate));
+
+    // --- Hydrogen and catalyst species ---
+    let RH2 = -kaH * H2 * S1 - Rethane;
+    for (let j = 0; j < nS; j++) {
+        let hydrogenTransfer = 0;
+        for (let i = 0; i < nM; i++) hydrogenTransfer += ktH[i][j];
+        RH2 -= Y0[j] * H2 * hydrogenTransfer;
+    }
+    const RS = -ka * S * c - kaa * c * S;
+    const RS1 = -kaH * H2 * S1 + kaa * c * S;
+    const RC = -ka * S * c - kaa * c * S;
+
+    // --- Site, moment and end-group balances ---
+    const activation = ka * S * c + kaH * H2 * S1;
+    const Mt = totalMonomerConcentration;
+    const RN0: number[] = [];
+    const RY: number[][] = [[], [], []];
+    const RX: number[][] = [[], [], []];
+    const RP: number[] = [];
+    const RN: number[][] = Array.from({ length: nM }, () => new Array<number>(nS).fill(0));
+
+    for (let j = 0; j < nS; j++) {
+        let initiation = 0;
+        for (let m = 0; m < nM; m++) initiation += ki[m][j] * N0[j] * M[m];
+        RN0.push(activation * parameters.siteFractions[j] - initiation);
+
+        const chainStopping = Mt * pseudoKt[j] + pseudoKtH[j] * H2 + pseudoKte[j];
+        RY[0].push(N0[j] * Mt * pseudoKi[j] - Y0[j] * pseudoKte[j] - Y0[j] * H2 * pseudoKtH[j]);
+        RY[1].push(N0[j] * Mt * pseudoKi[j] + Mt * Y0[j] * (pseudoKp[j] + pseudoKt[j]) - Mt * Y1[j] * pseudoKt[j] - Y1[j] * (H2 * pseudoKtH[j] + pseudoKte[j]));
+        RY[2].push(N0[j] * Mt * pseudoKi[j] + Mt * Y0[j] * (pseudoKp[j] + pseudoKt[j]) + 2 * Mt * pseudoKp[j] * Y1[j] - Y2[j] * chainStopping);
+        RX[0].push(Y0[j] * chainStopping);
+        RX[1].push(Y1[j] * chainStopping);
+        RX[2].push(Y2[j] * chainStopping);
+        RP.push(Mt * Y0[j] * pseudoKp[j]);
+
+        for (let i = 0; i < nM; i++) {
+            let rate = ki[i][j] * M[i] * N0[j] - ktH[i][j] * H2 * N[i][j] - kte[i][j] * N[i][j];
+            for (let other = 0; other < nM; other++) {
+                if (other === i) continue;
+                rate += (kp[other][i][j] + kt[other][i][j]) * N[other][j] * M[i]; // Chains switching to end i
+                rate -= (kp[i][other][j] + kt[i][other][j]) * N[i][j] * M[other]; // Chains leaving end i
+            }
+            RN[i][j] = rate;
+        }
+    }
+
+    // --- Polymer production (g/h) ---
+    let polymerRateGrams = 0;
+    RM.forEach((rate, m) => {
+        polymerRateGrams += -rate * parameters.monomers[m].molecularWeight;
+    });
+    polymerRateGrams *= V;
+
+    const perReactor = (values: number[]) => values.map(v => v * V);
+    return {
+        polymerProductionRate: polymerRateGrams,
+        rateHydrogen: RH2 * V,
+        rateMonomers: perReactor(RMtotal),
+        rateSegments: RM.map(rate => -rate * V),
+        rateEthane: Rethane * V,
+        rateCatalyst: RS * V,
+        rateCr6: RS1 * V,
+        rateCocatalyst: RC * V,
+        rateActiveSites: perReactor(RN0),
+        rateLivingEnds: RN.map(perReactor),
+        rateLivingMoments: RY.map(perReactor),
+        rateDeadMoments: RX.map(perReactor),
+        ratePropagation: perReactor(RP),
+    };
+}
+
+
+// ===================================================================================
+// 4. CONVERSION FROM AND TO THE TWO-SITE MODEL
+// ===================================================================================
+
+/**
+ * Converts the named-field inputs of the two-site model into array form.
+ */
+export function toMultiSiteInputs(inputs: ZieglerModelInputs): MultiSiteInputs {
+    return {
+        hydrogen: inputs.hydrogen,
+        monomers: [inputs.ethylene, inputs.hexene],
+        catalyst: inputs.catalyst,
+        cr6: inputs.cr6,
+        cocatalyst: inputs.cocatalyst,
+        volume: inputs.volume,
+        temperature: inputs.temperature,
+        reactorFlag: inputs.reactorFlag,
+        activeSites: [inputs.activeSites_z0_1, inputs.activeSites_z0_2],
+        livingEnds: [
+            [inputs.livingPolymerEnd_z1_1, inputs.livingPolymerEnd_z1_2],
+            [inputs.livingPolymerEnd_z2_1, inputs.livingPolymerEnd_z2_2],
+        ],
+        livingMoments: [
+            [inputs.livingPolymerMoment0_y0_1, inputs.livingPolymerMoment0_y0_2],
+            [inputs.livingPolymerMoment1_y1_1, inputs.livingPolymerMoment1_y1_2],
+            [inputs.livingPolymerMoment2_y2_1, inputs.livingPolymerMoment2_y2_2],
+        ],
+    };
+}
+
+/**
+ * Arranges the named rate constants of a standard parameter set (see `calculateRateConstants`)
+ * in the layout of `twoSiteTwoMonomerParameters`.
+ */
+export function toMultiSiteRateConstants(k: RateConstants): MultiSiteRateConstants {
+    return {
+        ka: k.ka,
+        kaa: k.kaa,
+        kaH: k.kaH,
+        kethane: k.kethane,
+        ki: [[k.ki1_1, k.ki1_2], [k.ki2_1, k.ki2_2]],
+        kp: [
+            [[k.kp11_1, k.kp11_2], [k.kp12_1, k.kp12_2]],
+            [[k.kp21_1, k.kp21_2], [k.kp22_1, k.kp22_2]],
+        ],
+        kt: [
+            [[k.kt11_1, k.kt11_2], [k.kt12_1, k.kt12_2]],
+            [[k.kt21_1, k.kt21_2], [k.kt22_1, k.kt22_2]],
+        ],
+        ktH: [[k.ktH1_1, k.ktH1_2], [k.ktH2_1, k.ktH2_2]],
+        kte: [[k.kte1_1, k.kte1_2], [k.kte2_1, k.kte2_2]],
+    };
+}
+
+/**
+ * Converts array-form rates of a two-site, ethylene/1-hexene configuration into
+ * the named outputs of the original model.
+ * @throws Error if the outputs do not have two monomers and two site types.
+ */
+export function toZieglerModelOutputs(outputs: MultiSiteOutputs): ZieglerModelOutputs {
+    if (outputs.rateMonomers.length !== 2 || outputs.rateActiveSites.length !== 2) {
+        throw new Error('Only two-monomer, two-site results can be converted to ZieglerModelOutputs.');
+    }
+    const { rateLivingMoments: Y, rateDeadMoments: X, rateLivingEnds: N, ratePropagation: P } = outputs;
+    return {
+        polymerProductionRate: outputs.polymerProductionRate,
+        ratePolymerMass: outputs.polymerProductionRate,
+        rateNitrogen: 0,
+        rateEthylene: outputs.rateMonomers[0],
+        rateEthane: outputs.rateEthane,
+        ratePropane: 0,
+        rateButene: 0,
+        rateIsobutane: 0,
+        rateHexene: outputs.rateMonomers[1],
+        rateHexane: 0,
+        rateWater: 0,
+        rateCarbonMonoxide: 0,
+        rateMethane: 0,
+        rateHydrogen: outputs.rateHydrogen,
+        rateEthylenesegment: outputs.rateSegments[0],
+        rateHexenesegment: outputs.rateSegments[1],
+        rateCatalyst: outputs.rateCatalyst,
+        rateCocatalyst: outputs.rateCocatalyst,
+        rateCr6: outputs.rateCr6,
+        rateDeadPolymerMoment0_x0_1: X[0][0],
+        rateDeadPolymerMoment0_x0_2: X[0][1],
+        rateDeadPolymerMoment1_x1_1: X[1][0],
+        rateDeadPolymerMoment1_x1_2: X[1][1],
+        rateDeadPolymerMoment2_x2_1: X[2][0],
+        rateDeadPolymerMoment2_x2_2: X[2][1],
+        rateLivingPolymerMoment0_y0_1: Y[0][0],
+        rateLivingPolymerMoment0_y0_2: Y[0][1],
+        rateLivingPolymerMoment1_y1_1: Y[1][0],
+        rateLivingPolymerMoment1_y1_2: Y[1][1],
+        rateLivingPolymerMoment2_y2_1: Y[2][0],
+        rateLivingPolymerMoment2_y2_2: Y[2][1],
+        rateActiveSites_z0_1: outputs.rateActiveSites[0],
+        rateActiveSites_z0_2: outputs.rateActiveSites[1],
+        rateLivingPolymerEnd_z1_1: N[0][0],
+        rateLivingPolymerEnd_z1_2: N[0][1],
+        rateLivingPolymerEnd_z2_1: N[1][0],
+        rateLivingPolymerEnd_z2_2: N[1][1],
+        ratePropagation_1: P[0],
+        ratePropagation_2: P[1],
+    };
+}
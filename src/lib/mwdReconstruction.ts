@@ -0,0 +1,282 @@
+/**
+ * @file mwdReconstruction.ts
+ *
+ * Reconstruction of the full molecular weight distribution (MWD) from the moments
+ * carried by the model, and deconvolution of measured GPC curves into site contributions.
+ *
+ * Each site type is described by a Schulz-Zimm distribution matched to its Mn and Mw.
+ * For a single-site catalyst Mw/Mn = 2, which reduces it to the Schulz-Flory (most
+ * probable) distribution. Curves are given as dW/dlog10(M), the form GPC software reports,
+ * and are normalized so that the area under the combined curve is 1.
+ */
+import type { ZieglerModelInputs, ZieglerModelOutputs } from './zieglerModel';
+import {
+    instantaneousPolymerProperties,
+    livingPolymerProperties,
+    segmentMolecularWeight,
+    type PolymerProperties,
+} from './polymerProperties';
+import { levenbergMarquardt } from './levenbergMarquardt';
+import { logGamma } from './statistics';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * Distribution parameters of one site type.
+ */
+export interface SiteDistribution {
+    numberAverageMolecularWeight: number;   // Mn (g/mol)
+    weightAverageMolecularWeight: number;   // Mw (g/mol)
+    massFraction: number;                   // Share of the polymer mass made on this site type
+}
+
+/**
+ * A molecular weight distribution on a log10(M) grid.
+ */
+export interface MolecularWeightDistribution {
+    logM: number[];                         // log10 of the molecular weight (g/mol)
+    total: number[];                        // dW/dlog10(M) of the whole polymer
+    sites: number[][];                      // dW/dlog10(M) of each site, weighted by its mass fraction
+    siteDistributions: SiteDistribution[];
+}
+
+/**
+ * Grid options. Without limits, the grid spans the distributions of all sites.
+ */
+export interface DistributionGridOptions {
+    logMMin?: number;
+    logMMax?: number;
+    points?: number;                        // Default 200
+}
+
+/**
+ * A measured GPC curve.
+ */
+export interface GpcCurve {
+    logM: number[];                         // log10 of the molecular weight (g/mol)
+    dWdLogM: number[];                      // Detector response as dW/dlog10(M), any scale
+}
+
+/**
+ * Options of the GPC deconvolution. All fields are optional.
+ */
+export interface DeconvolutionOptions {
+    components?: number;                    // Number of Flory components (default 2, one per site type)
+    initialMn?: number[];                   // Starting Mn of each component, e.g. the model's site Mn
+}
+
+/**
+ * Result of a GPC deconvolution into Flory components.
+ */
+export interface DeconvolutionResult {
+    components: SiteDistribution[];         // Sorted by increasing Mn; Mw = 2 Mn for Flory components
+    measured: number[];                     // Measured curve normalized to unit area
+    fitted: number[];                       // Sum of the fitted components on the measured grid
+    componentCurves: number[][];            // Each fitted component on the measured grid
+    rootMeanSquareError: number;
+    converged: boolean;
+    message: string;
+}
+
+
+// ===================================================================================
+// 2. RECONSTRUCTION
+// ===================================================================================
+
+/**
+ * dW/dlog10(M) of a Schulz-Zimm distribution with unit area.
+ * The weight fraction density is a gamma density of shape k + 1 and scale Mn / k,
+ * with k = 1 / (Mw/Mn - 1); k = 1 gives the Flory distribution.
+ * @param M Molecular weight (g/mol).
+ * @param Mn Number-average molecular weight (g/mol).
+ * @param Mw Weight-average molecular weight (g/mol).
+ */
+export function schulzZimmDensity(M: number, Mn: number, Mw: number): number {
+    const pdi = Math.max(Mw / Mn, 1 + 1e-6);
+    const k = 1 / (pdi - 1);
+    // M * w(M) = (kM/Mn)^(k+1) exp(-kM/Mn) / Gamma(k+1)
+    const x = (k * M) / Mn;
+    return Math.LN10 * Math.exp((k + 1) * Math.log(x) - x - logGamma(k + 1));
+}
+
+/**
+ * Reconstructs the molecular weight distribution from per-site polymer properties.
+ * Works for instantaneous, cumulative and living polymer properties alike.
+ * @param properties Per-site averages and mass fractions (see 'polymerProperties.ts').
+ * @param options Grid limits and resolution.
+ * @returns The per-site and combined dW/dlog10(M) curves.
+ */
+export function reconstructMolecularWeightDistribution(properties: PolymerProperties, options: DistributionGridOptions = {}): MolecularWeightDistribution {
+    const siteDistributions: SiteDistribution[] = properties.sites.map((site, j) => ({
+        numberAverageMolecularWeight: site.numberAverageMolecularWeight,
+        weightAverageMolecularWeight: site.weightAverageMolecularWeight,
+        massFraction: properties.siteMassFractions[j],
+    }));
+    const present = siteDistributions.filter(
+        s => s.massFraction > 0 && Number.isFinite(s.numberAverageMolecularWeight) && Number.isFinite(s.weightAverageMolecularWeight),
+    );
+    if (present.length === 0) {
+        throw new Error('The polymer properties describe no polymer; cannot reconstruct a distribution.');
+    }
+
+    const logMMin = options.logMMin ?? Math.floor(Math.min(...present.map(s => Math.log10(s.numberAverageMolecularWeight))) - 1.5);
+    const logMMax = options.logMMax ?? Math.ceil(Math.max(...present.map(s => Math.log10(s.weightAverageMolecularWeight))) + 1.5);
+    const points = options.points ?? 200;
+    const logM = Array.from({ length: points }, (_, i) => logMMin + ((logMMax - logMMin) * i) / (points - 1));
+
+    const sites = siteDistributions.map(site =>
+        logM.map(x =>
+            present.includes(site)
+                ? site.massFraction * schulzZimmDensity(10 ** x, site.numberAverageMolecularWeight, site.weightAverageMolecularWeight)
+                : 0,
+        ),
+    );
+    const total = logM.map((_, i) => sites.reduce((sum, curve) => sum + curve[i], 0));
+    return { logM, total, sites, siteDistributions };
+}
+
+/**
+ * Distribution of the polymer currently being formed, from the propagation and chain-stopping rates per site.
+ */
+export function instantaneousDistribution(outputs: ZieglerModelOutputs, options: DistributionGridOptions = {}): MolecularWeightDistribution {
+    return reconstructMolecularWeightDistribution(instantaneousPolymerProperties(outputs), options);
+}
+
+/**
+ * Distribution of the chains still growing, from the living polymer moments of the inputs.
+ * @param inputs The model inputs holding the living polymer moments.
+ * @param outputs The reaction rates at the same point; give the segment molecular weight.
+ */
+export function livingDistribution(inputs: ZieglerModelInputs, outputs: ZieglerModelOutputs, options: DistributionGridOptions = {}): MolecularWeightDistribution {
+    return reconstructMolecularWeightDistribution(livingPolymerProperties(inputs, segmentMolecularWeight(outputs)), options);
+}
+
+
+// ===================================================================================
+// 3. GPC DECONVOLUTION
+// ===================================================================================
+
+/**
+ * Deconvolutes a measured GPC curve into Flory components by least squares.
+ * Comparing the components with the model's site distributions shows whether the
+ * site types of the kinetic model are consistent with the measured product.
+ * @param curve The measured curve.
+ * @param options Number of components and starting values.
+ * @returns The fitted components and curves.
+ */
+export function deconvoluteGpcCurve(curve: GpcCurve, options: DeconvolutionOptions = {}): DeconvolutionResult {
+    const n = options.components ?? options.initialMn?.length ?? 2;
+    const { logM } = curve;
+    if (logM.length !== curve.dWdLogM.length) {
+        throw new Error('GPC curve must have as many response values as molecular weights.');
+    }
+    if (logM.length < 2 * n + 1) {
+        throw new Error(`A GPC curve with ${logM.length} points cannot determine ${n} components.`);
+    }
+    const area = trapezoidArea(logM, curve.dWdLogM);
+    if (!(area > 0)) {
+        throw new Error('GPC curve has no positive area.');
+    }
+    const measured = curve.dWdLogM.map(v => v / area);
+
+    // Parameters: log10(Mn) and mass fraction of every component
+    const peak = logM[measured.indexOf(Math.max(...measured))];
+    const initialLogMn = options.initialMn?.map(Mn => Math.log10(Mn))
+        ?? Array.from({ length: n }, (_, j) => peak - Math.LOG10E * Math.LN2 + (n > 1 ? -0.5 + j / (n - 1) : 0));
+    const x0 = [...initialLogMn, ...new Array<number>(n).fill(1 / n)];
+    const lowest = Math.min(...logM) - 1;
+    const highest = Math.max(...logM) + 1;
+    const lower = [...new Array<number>(n).fill(lowest), ...new Array<number>(n).fill(0)];
+    const upper = [...new Array<number>(n).fill(highest), ...new Array<number>(n).fill(2)];
+
+    const componentCurves = (x: number[]) =>
+        Array.from({ length: n }, (_, j) => {
+            const Mn = 10 ** x[j];
+            return logM.map(v => x[n + j] * schulzZimmDensity(10 ** v, Mn, 2 * Mn));
+        });
+    const sumCurves = (curves: number[][]) => logM.map((_, i) => curves.reduce((sum, c) => sum + c[i], 0));
+
+    const fit = levenbergMarquardt(
+        x => sumCurves(componentCurves(x)).map((v, i) => v - measured[i]),
+        x0.map((v, i) => Math.min(Math.max(v, lower[i]), upper[i])),
+        { lower, upper, stepScale: x0.map(() => 1) },
+    );
+
+    const curves = componentCurves(fit.x);
+    const fractionTotal = fit.x.slice(n).reduce((sum, w) => sum + w, 0);
+    const order = Array.from({ length: n }, (_, j) => j).sort((a, b) => fit.x[a] - fit.x[b]);
+
+    return {
+        components: order.map(j => ({
+            numberAverageMolecularWeight: 10 ** fit.x[j],
+            weightAverageMolecularWeight: 2 * 10 ** fit.x[j],
+            massFraction: fractionTotal > 0 ? fit.x[n + j] / fractionTotal : NaN,
+        })),
+        measured,
+        fitted: sumCurves(curves),
+        componentCurves: order.map(j => curves[j]),
+        rootMeanSquareError: Math.sqrt(fit.sumOfSquares / logM.length),
+        converged: fit.converged,
+        message: fit.message,
+    };
+}
+
+function trapezoidArea(x: number[], y: number[]): number {
+    let area = 0;
+    for (let i = 1; i < x.length; i++) {
+        area += 0.5 * (y[i] + y[i - 1]) * (x[i] - x[i - 1]);
+    }
+    return Math.abs(area);
+}
+
+
+// ===================================================================================
+// 4. IMPORT AND EXPORT
+// ===================================================================================
+
+/**
+ * Writes a distribution as CSV: log10(M), M, the combined curve and one column per site.
+ */
+export function distributionToCsv(distribution: MolecularWeightDistribution): string {
+    const header = ['log10(M)', 'M (g/mol)', 'dW/dlogM total', ...distribution.sites.map((_, j) => `dW/dlogM site ${j + 1}`)];
+    const rows = distribution.logM.map((x, i) =>
+        [x, 10 ** x, distribution.total[i], ...distribution.sites.map(site => site[i])].map(v => v.toPrecision(8)).join(','),
+    );
+    return [header.join(','), ...rows].join('\n');
+}
+
+/**
+ * Writes a distribution as formatted JSON.
+ */
+export function distributionToJson(distribution: MolecularWeightDistribution): string {
+    return JSON.stringify(distribution, null, 2);
+}
+
+/**
+ * Reads a GPC curve from CSV or tab-separated text with two numeric columns:
+ * molecular weight and dW/dlogM. The first column is taken as log10(M) when all
+ * its values are below 10, otherwise as M in g/mol. Non-numeric lines (headers) are skipped.
+ */
+export function parseGpcCsv(text: string): GpcCurve {
+    const pairs: [number, number][] = [];
+    for (const line of text.split(/\r?\n/)) {
+        const fields = line.split(/[,;\t]/).map(f => Number(f.trim()));
+        if (fields.length >= 2 && line.trim() !== '' && Number.isFinite(fields[0]) && Number.isFinite(fields[1])) {
+            pairs.push([fields[0], fields[1]]);
+        }
+    }
+    if (pairs.length === 0) {
+        throw new Error('No numeric data found in the GPC file.');
+    }
+    const isLog = pairs.every(([m]) => m < 10);
+    if (!isLog && pairs.some(([m]) => m <= 0)) {
+        throw new Error('Molecular weights in the GPC file must be positive.');
+    }
+    pairs.sort((a, b) => a[0] - b[0]);
+    return {
+        logM: pairs.map(([m]) => (isLog ? m : Math.log10(m))),
+        dWdLogM: pairs.map(([, w]) => w),
+    };
+}
@@ -0,0 +1,231 @@
+/**
+ * @file odeSolver.ts
+ *
+ * Implicit integrator for stiff systems of ordinary differential equations.
+ * The kinetic model combines rate constants that differ by many orders of magnitude,
+ * so explicit methods would need impractically small steps.
+ *
+ * The method is the L-stable second-order Rosenbrock (Rosenbrock-W) scheme with an
+ * embedded third-order error estimate of Shampine & Reichelt (the basis of MATLAB's ode23s).
+ */
+import { luDecompose, luSolve, numericalJacobian, type Matrix, type Vector } from './linearAlgebra';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/** Right-hand side of the system dy/dt = f(t, y). */
+export type OdeFunction = (t: number, y: Vector) => Vector;
+
+/**
+ * Tuning options of the integrator. All fields are optional.
+ */
+export interface OdeOptions {
+    relativeTolerance?: number;          // Local relative error tolerance (default 1e-6)
+    absoluteTolerance?: number | Vector; // Local absolute error tolerance (default 1e-12)
+    initialStep?: number;                // First trial step (default: estimated)
+    maxStep?: number;                    // Largest allowed step (default: the full span)
+    maxSteps?: number;                   // Hard limit on the number of attempted steps (default 50000)
+    nonNegative?: boolean;               // Clip small negative components after each accepted step
+}
+
+/**
+ * Counters describing the work done by the integrator.
+ */
+export interface OdeStatistics {
+    acceptedSteps: number;
+    rejectedSteps: number;
+    functionEvaluations: number;
+    jacobianEvaluations: number;
+    luDecompositions: number;
+}
+
+/**
+ * Solution at the requested output times.
+ * If the integration fails, the arrays hold the points reached before the failure.
+ */
+export interface OdeSolution {
+    times: number[];
+    values: Vector[];
+    success: boolean;
+    message: string;
+    statistics: OdeStatistics;
+}
+
+
+// ===================================================================================
+// 2. INTEGRATOR
+// ===================================================================================
+
+const D = 1 / (2 + Math.SQRT2);
+const E32 = 6 + Math.SQRT2;
+
+/**
+ * Integrates dy/dt = f(t, y) from t0 through all requested output times.
+ * @param f The right-hand side function.
+ * @param t0 The initial time.
+ * @param y0 The initial state vector.
+ * @param outputTimes Increasing times (all >= t0) at which the solution is reported.
+ * @param options Tolerances and step controls.
+ * @returns The solution at t0 and at each output time.
+ */
+export function integrateStiff(f: OdeFunction, t0: number, y0: Vector, outputTimes: number[], options: OdeOptions = {}): OdeSolution {
+    const rtol = options.relativeTolerance ?? 1e-6;
+    const atolOption = options.absoluteTolerance ?? 1e-12;
+    const atol: Vector = typeof atolOption === 'number' ? y0.map(() => atolOption) : atolOption;
+    const maxSteps = options.maxSteps ?? 50000;
+    const n = y0.length;
+
+    const statistics: OdeStatistics = {
+        acceptedSteps: 0,
+        rejectedSteps: 0,
+        functionEvaluations: 0,
+        jacobianEvaluations: 0,
+        luDecompositions: 0,
+    };
+    const evaluate: OdeFunction = (t, y) => {
+        statistics.functionEvaluations++;
+        return f(t, y);
+    };
+
+    const times: number[] = [t0];
+    const values: Vector[] = [y0.slice()];
+    const finish = (success: boolean, message: string): OdeSolution => ({ times, values, success, message, statistics });
+
+    if (atol.length !== n) {
+        return finish(false, `Absolute tolerance has ${atol.length} entries, expected ${n}.`);
+    }
+    for (let i = 1; i < outputTimes.length; i++) {
+        if (outputTimes[i] < outputTimes[i - 1]) {
+            return finish(false, 'Output times must be increasing.');
+        }
+    }
+    if (outputTimes.length === 0) {
+        return finish(true, 'No output times requested.');
+    }
+
+    const tFinal = outputTimes[outputTimes.length - 1];
+    if (tFinal < t0) {
+        return finish(false, 'Output times must not precede the initial time.');
+    }
+    const maxStep = options.maxStep ?? Math.max(tFinal - t0, Number.MIN_VALUE);
+
+    let t = t0;
+    let y = y0.slice();
+    let F0 = evaluate(t, y);
+    let h = Math.min(options.initialStep ?? estimateInitialStep(F0, y, atol, rtol, tFinal - t0), maxStep);
+    let outputIndex = 0;
+    let steps = 0;
+
+    // The initial point is always reported, so skip output times equal to t0
+    while (outputIndex < outputTimes.length && outputTimes[outputIndex] <= t0) {
+        outputIndex++;
+    }
+
+    // The Jacobian is refreshed after every accepted step; rejected steps reuse it.
+    let J: Matrix | null = null;
+
+    while (outputIndex < outputTimes.length) {
+        if (steps++ >= maxSteps) {
+            return finish(false, `Maximum number of steps (${maxSteps}) reached at t = ${t}.`);
+        }
+
+        const tTarget = outputTimes[outputIndex];
+        let hitsTarget = false;
+        if (t + h >= tTarget || t + 1.1 * h >= tTarget) {
+            h = tTarget - t;
+            hitsTarget = true;
+        }
+
+        const hMin = 16 * Number.EPSILON * Math.abs(t);
+        if (h <= hMin || h < Number.MIN_VALUE) {
+            return finish(false, `Step size became too small at t = ${t}.`);
+        }
+
+        if (!J) {
+            J = numericalJacobian(x => evaluate(t, x), y, F0, atol);
+            statistics.jacobianEvaluations++;
+        }
+
+        // Time derivative of f, needed for non-autonomous systems
+        const dt = Math.sqrt(Number.EPSILON) * Math.max(Math.abs(t), Math.abs(h));
+        const Ft = evaluate(t + dt, y);
+        const dfdt = Ft.map((v, i) => (v - F0[i]) / dt);
+
+        // Iteration matrix W = I - h d J
+        const W: Matrix = J.map((row, i) => row.map((v, j) => (i === j ? 1 : 0) - h * D * v));
+        let decomposition;
+        try {
+            decomposition = luDecompose(W);
+            statistics.luDecompositions++;
+        } catch {
+            h *= 0.5;
+            statistics.rejectedSteps++;
+            continue;
+        }
+
+        const k1 = luSolve(decomposition, F0.map((v, i) => v + h * D * dfdt[i]));
+        const F1 = evaluate(t + 0.5 * h, y.map((v, i) => v + 0.5 * h * k1[i]));
+        const k2 = luSolve(decomposition, F1.map((v, i) => v - k1[i])).map((v, i) => v + k1[i]);
+        const yNew = y.map((v, i) => v + h * k2[i]);
+        const F2 = evaluate(t + h, yNew);
+        const k3 = luSolve(decomposition, F2.map((v, i) => v - E32 * (k2[i] - F1[i]) - 2 * (k1[i] - F0[i]) + h * D * dfdt[i]));
+
+        // Error estimate and weighted max-norm
+        let errorNorm = 0;
+        for (let i = 0; i < n; i++) {
+            const errorEstimate = (h / 6) * (k1[i] - 2 * k2[i] + k3[i]);
+            const scale = atol[i] + rtol * Math.max(Math.abs(y[i]), Math.abs(yNew[i]));
+            errorNorm = Math.max(errorNorm, Math.abs(errorEstimate) / scale);
+        }
+        if (!Number.isFinite(errorNorm)) {
+            h *= 0.25;
+            statistics.rejectedSteps++;
+            continue;
+        }
+
+        if (errorNorm > 1) {
+            // Reject the step and retry with a smaller one
+            h *= Math.max(0.1, 0.8 * Math.pow(errorNorm, -1 / 3));
+            statistics.rejectedSteps++;
+            continue;
+        }
+
+        // Accept the step
+        statistics.acceptedSteps++;
+        t = hitsTarget ? tTarget : t + h;
+        y = options.nonNegative ? yNew.map(v => (v < 0 ? 0 : v)) : yNew;
+        F0 = options.nonNegative ? evaluate(t, y) : F2;
+        J = null;
+
+        while (outputIndex < outputTimes.length && outputTimes[outputIndex] <= t) {
+            times.push(outputTimes[outputIndex]);
+            values.push(y.slice());
+            outputIndex++;
+        }
+
+        const growth = errorNorm === 0 ? 5 : Math.min(5, 0.8 * Math.pow(errorNorm, -1 / 3));
+        h = Math.min(maxStep, h * growth);
+    }
+
+    return finish(true, 'Integration completed.');
+}
+
+
+// ===================================================================================
+// 3. HELPERS
+// ===================================================================================
+
+/**
+ * Chooses a first trial step such that the explicit change over the step is
+ * comparable to the error tolerance.
+ */
+function estimateInitialStep(F0: Vector, y0: Vector, atol: Vector, rtol: number, span: number): number {
+    let rate = 0;
+    for (let i = 0; i < y0.length; i++) {
+        const scale = atol[i] + rtol * Math.abs(y0[i]);
+        rate = Math.max(rate, Math.abs(F0[i]) / scale);
+    }
+    const h = rate > 0 ? Math.pow(rtol, 1 / 3) / rate : span;
+    return Math.min(Math.max(h, Number.MIN_VALUE), span);
+}
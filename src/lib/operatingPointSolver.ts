@@ -0,0 +1,264 @@
+/**
+ * @file operatingPointSolver.ts
+ *
+ * Inverse use of the kinetic model: finds the operating point (hydrogen, monomer and
+ * cocatalyst concentrations, temperature) that gives target values of selected outputs,
+ * e.g. a molecular weight and comonomer content at a given production rate. It can
+ * also maximize the production rate subject to quality constraints.
+ *
+ * The problem is solved as bound-constrained least squares (see 'levenbergMarquardt.ts'):
+ * relative deviations from the targets and penalties for violated constraints form the
+ * residuals, and the manipulated inputs are kept within the ranges of the app sliders
+ * (see 'operatingRanges.ts'). Several starting points guard against local minima.
+ */
+import { calculateReactionRates, type ZieglerModelInputs } from './zieglerModel';
+import { defaultKineticParameters, type KineticParameterSet } from './kineticParameters';
+import { predictQuantity, type MeasuredQuantity } from './parameterEstimation';
+import { levenbergMarquardt, type LeastSquaresResult } from './levenbergMarquardt';
+import { INPUT_RANGES, clampToRange } from './operatingRanges';
+import type { SensitivityInput } from './sensitivityAnalysis';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * An input the solver may change, with optional bounds narrower than the slider range.
+ */
+export interface ManipulatedInput {
+    name: SensitivityInput;
+    lower?: number;                     // Default: slider minimum
+    upper?: number;                     // Default: slider maximum
+}
+
+/**
+ * Desired value of an output.
+ */
+export interface OperatingTarget {
+    quantity: MeasuredQuantity;
+    value: number;
+    weight?: number;                    // Relative weight (default 1)
+    tolerance?: number;                 // Relative deviation counted as met (default 0.01)
+}
+
+/**
+ * Allowed range of an output.
+ */
+export interface QualityConstraint {
+    quantity: MeasuredQuantity;
+    min?: number;
+    max?: number;
+}
+
+/**
+ * An inverse problem at fixed catalyst, volume and reactor state.
+ */
+export interface OperatingPointProblem {
+    baseInputs: ZieglerModelInputs;     // Fixed inputs and starting point of the manipulated ones
+    manipulated: ManipulatedInput[];
+    targets?: OperatingTarget[];
+    constraints?: QualityConstraint[];
+    maximizeProduction?: boolean;       // Push the production rate up as far as the constraints allow
+}
+
+/**
+ * Solver controls. All fields are optional.
+ */
+export interface OperatingPointOptions {
+    kineticParameters?: KineticParameterSet;
+    penaltyWeight?: number;             // Weight of constraint violations (default 100)
+    productionWeight?: number;          // Weight of the production objective (default 0.01)
+    constraintTolerance?: number;       // Relative violation still counted as satisfied (default 1e-3)
+    maxIterations?: number;             // Per start (default 200)
+}
+
+/**
+ * Achieved value of a target.
+ */
+export interface TargetStatus {
+    quantity: MeasuredQuantity;
+    target: number;
+    value: number;
+    relativeError: number;
+    met: boolean;
+}
+
+/**
+ * Achieved value of a constraint.
+ */
+export interface ConstraintStatus {
+    quantity: MeasuredQuantity;
+    min?: number;
+    max?: number;
+    value: number;
+    satisfied: boolean;
+}
+
+/**
+ * Best operating point found.
+ */
+export interface OperatingPointResult {
+    inputs: ZieglerModelInputs;         // Base inputs with the solved values substituted
+    manipulated: { name: SensitivityInput; value: number; lower: number; upper: number; atBound: boolean }[];
+    targets: TargetStatus[];
+    constraints: ConstraintStatus[];
+    productionRate: number;             // g/h
+    feasible: boolean;                  // All targets met and all constraints satisfied
+    converged: boolean;
+    iterations: number;                 // Summed over all starts
+    message: string;
+}
+
+// Relative change of an output across the bounds of an input below which the output counts as independent of it
+const SENSITIVITY_THRESHOLD = 1e-9;
+
+
+// ===================================================================================
+// 2. SOLVER
+// ===================================================================================
+
+/**
+ * Finds the operating point that best meets the targets and constraints.
+ * @param problem Manipulated inputs, targets, constraints and objective.
+ * @param options Kinetic parameter set, weights and solver controls.
+ * @returns The best operating point with achieved values and constraint status.
+ * @throws Error if the problem is ill-posed, e.g. a target depends on none of the manipulated inputs.
+ */
+export function solveOperatingPoint(problem: OperatingPointProblem, options: OperatingPointOptions = {}): OperatingPointResult {
+    const parameters = options.kineticParameters ?? defaultKineticParameters;
+    const penaltyWeight = options.penaltyWeight ?? 100;
+    const productionWeight = options.productionWeight ?? 0.01;
+    const constraintTolerance = options.constraintTolerance ?? 1e-3;
+    const targets = problem.targets ?? [];
+    const constraints = problem.constraints ?? [];
+    const { manipulated, baseInputs } = problem;
+
+    if (manipulated.length === 0) {
+        throw new Error('Select at least one manipulated input.');
+    }
+    if (targets.length === 0 && !problem.maximizeProduction) {
+        throw new Error('Give at least one target or maximize the production rate.');
+    }
+    for (const target of targets) {
+        if (!Number.isFinite(target.value) || target.value === 0) {
+            throw new Error(`Target for ${target.quantity} must be a finite, non-zero number.`);
+        }
+    }
+
+    const lower = manipulated.map(m => m.lower ?? INPUT_RANGES[m.name].min);
+    const upper = manipulated.map(m => m.upper ?? INPUT_RANGES[m.name].max);
+    manipulated.forEach((m, i) => {
+        if (!(upper[i] > lower[i])) {
+            throw new Error(`Upper bound of ${m.name} must exceed its lower bound.`);
+        }
+    });
+
+    const inputsAt = (x: number[]): ZieglerModelInputs => {
+        const inputs = { ...baseInputs };
+        manipulated.forEach((m, i) => {
+            inputs[m.name] = x[i];
+        });
+        return inputs;
+    };
+    const evaluate = (x: number[]) => {
+        const outputs = calculateReactionRates(inputsAt(x), parameters);
+        return (quantity: MeasuredQuantity) => predictQuantity(quantity, outputs);
+    };
+
+    const x0 = manipulated.map(m => clampToRange(m.name, baseInputs[m.name]));
+    const atStart = evaluate(x0);
+    const referenceProduction = Math.abs(atStart('polymerProductionRate')) || 1;
+
+    // A target that no manipulated input changes cannot be steered; the least squares
+    // problem would stop at the start and report it as missed
+    const movedBy = (quantity: MeasuredQuantity, i: number) => {
+        const reference = atStart(quantity);
+        return [lower[i], upper[i]].some(bound => {
+            const x = [...x0];
+            x[i] = bound;
+            const changed = evaluate(x)(quantity);
+            return !(Math.abs(changed - reference) <= SENSITIVITY_THRESHOLD * Math.max(Math.abs(changed), Math.abs(reference)));
+        });
+    };
+    for (const target of targets) {
+        if (!manipulated.some((_, i) => movedBy(target.quantity, i))) {
+            throw new Error(`${target.quantity} does not change with ${manipulated.map(m => m.name).join(', ')}; manipulate an input it depends on.`);
+        }
+    }
+
+    const residuals = (x: number[]) => {
+        const value = evaluate(x);
+        const r = targets.map(t => (t.weight ?? 1) * (value(t.quantity) - t.value) / Math.abs(t.value));
+        for (const c of constraints) {
+            r.push(penaltyWeight * violation(c, value(c.quantity)));
+        }
+        if (problem.maximizeProduction) {
+            // Decreases as production grows; the constraint penalties dominate once violated
+            r.push(productionWeight * referenceProduction / Math.max(value('polymerProductionRate'), 1e-12 * referenceProduction));
+        }
+        return r.map(v => (Number.isFinite(v) ? v : 1e6));
+    };
+
+    // Start from the current point and from points spread over the bounds
+    const starts = [x0, ...[0.25, 0.5, 0.75].map(f => lower.map((lo, i) => lo + f * (upper[i] - lo)))];
+    let best: LeastSquaresResult | null = null;
+    let iterations = 0;
+    for (const start of starts) {
+        const fit = levenbergMarquardt(residuals, start, {
+            lower,
+            upper,
+            stepScale: upper.map((up, i) => up - lower[i]),
+            maxIterations: options.maxIterations ?? 200,
+        });
+        iterations += fit.iterations;
+        if (!best || fit.sumOfSquares < best.sumOfSquares) best = fit;
+    }
+    const solution = best!;
+
+    // --- Report ---
+    const value = evaluate(solution.x);
+    const targetStatus: TargetStatus[] = targets.map(t => {
+        const achieved = value(t.quantity);
+        const relativeError = (achieved - t.value) / Math.abs(t.value);
+        return { quantity: t.quantity, target: t.value, value: achieved, relativeError, met: Math.abs(relativeError) <= (t.tolerance ?? 0.01) };
+    });
+    const constraintStatus: ConstraintStatus[] = constraints.map(c => {
+        const achieved = value(c.quantity);
+        return { quantity: c.quantity, min: c.min, max: c.max, value: achieved, satisfied: violation(c, achieved) <= constraintTolerance };
+    });
+    const feasible = targetStatus.every(t => t.met) && constraintStatus.every(c => c.satisfied);
+    const boundTolerance = 1e-6;
+
+    return {
+        inputs: inputsAt(solution.x),
+        manipulated: manipulated.map((m, i) => ({
+            name: m.name,
+            value: solution.x[i],
+            lower: lower[i],
+            upper: upper[i],
+            atBound: solution.x[i] - lower[i] <= boundTolerance * (upper[i] - lower[i]) || upper[i] - solution.x[i] <= boundTolerance * (upper[i] - lower[i]),
+        })),
+        targets: targetStatus,
+        constraints: constraintStatus,
+        productionRate: value('polymerProductionRate'),
+        feasible,
+        converged: solution.converged,
+        iterations,
+        message: feasible
+            ? 'All targets met and all constraints satisfied.'
+            : 'No operating point within the bounds meets all targets and constraints; the closest one is shown.',
+    };
+}
+
+/**
+ * Relative violation of a constraint (zero when satisfied).
+ */
+function violation(constraint: QualityConstraint, value: number): number {
+    if (constraint.min !== undefined && value < constraint.min) {
+        return (constraint.min - value) / (Math.abs(constraint.min) || 1);
+    }
+    if (constraint.max !== undefined && value > constraint.max) {
+        return (value - constraint.max) / (Math.abs(constraint.max) || 1);
+    }
+    return 0;
+}
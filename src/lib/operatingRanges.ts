@@ -0,0 +1,72 @@
+/**
+ * @file operatingRanges.ts
+ *
+ * Default inputs and ranges of the operating inputs that can be set in the app, based on
+ * typical PE loop reactor conditions. The input sliders and the operating-point solver
+ * share the ranges, so the solver never proposes a point the operator could not set.
+ */
+import type { ZieglerModelInputs } from './zieglerModel';
+
+/**
+ * Default inputs of the app and of scenario files that leave fields out.
+ */
+export const DEFAULT_INPUTS: ZieglerModelInputs = {
+    // --- Main operational parameters (controlled by sliders) ---
+    temperature: 363.15,  // Kelvin (90 °C)
+    hydrogen: 0.005,      // mol/L (Target: 0-0.01)
+    ethylene: 0.08,       // mol/L (Target: 0-0.1)
+    hexene: 0.02,         // mol/L (Target: 0-0.04)
+    catalyst: 0.0001,     // mol/L (S)
+    cr6: 0,               // mol/L (S1, often starts at 0)
+    cocatalyst: 0.01,     // mol/L (c)
+    volume: 100000,       // Liters (100 m^3)
+    reactorFlag: 1,       // Reactor type 1
+
+    // --- State variables (concentrations of species in the reactor) ---
+    // These would change over time in a dynamic simulation.
+    // For a single calculation, we use small initial values.
+    activeSites_z0_1: 1e-7,
+    activeSites_z0_2: 1e-7,
+    livingPolymerEnd_z1_1: 1e-7,
+    livingPolymerEnd_z1_2: 1e-7,
+    livingPolymerEnd_z2_1: 1e-7,
+    livingPolymerEnd_z2_2: 1e-7,
+    livingPolymerMoment0_y0_1: 1e-7,
+    livingPolymerMoment0_y0_2: 1e-7,
+    livingPolymerMoment1_y1_1: 1e-7,
+    livingPolymerMoment1_y1_2: 1e-7,
+    livingPolymerMoment2_y2_1: 1e-7,
+    livingPolymerMoment2_y2_2: 1e-7,
+};
+
+/**
+ * Range and resolution of one operating input.
+ */
+export interface InputRange {
+    label: string;
+    unit: string;
+    min: number;
+    max: number;
+    step: number;
+}
+
+/** Operating inputs with a range in the app. */
+export type RangedInput = 'temperature' | 'volume' | 'hydrogen' | 'ethylene' | 'hexene' | 'cocatalyst';
+
+export const INPUT_RANGES: Record<RangedInput, InputRange> = {
+    temperature: { label: 'Temperature', unit: 'K', min: 273.15 + 80, max: 273.15 + 110, step: 0.1 },
+    volume: { label: 'Volume', unit: 'L', min: 50000, max: 150000, step: 1000 },
+    hydrogen: { label: 'Hydrogen', unit: 'mol/L', min: 0, max: 0.01, step: 0.0001 },
+    ethylene: { label: 'Ethylene', unit: 'mol/L', min: 0, max: 0.1, step: 0.001 },
+    hexene: { label: 'Hexene', unit: 'mol/L', min: 0, max: 0.04, step: 0.0005 },
+    cocatalyst: { label: 'Cocatalyst', unit: 'mol/L', min: 0, max: 0.02, step: 0.0005 },
+};
+
+/**
+ * Clamps an input value into its range.
+ */
+export function clampToRange(name: RangedInput, value: number): number {
+    const range = INPUT_RANGES[name];
+    return Math.min(Math.max(value, range.min), range.max);
+}
+
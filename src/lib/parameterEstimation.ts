@@ -0,0 +1,288 @@
+/**
+ * @file parameterEstimation.ts
+ *
+ * Regression of the kinetic parameters against measured plant or lab data.
+ * Selected Arrhenius coefficients are fitted with the Levenberg-Marquardt method.
+ * The model's Arrhenius form k = exp(a) * exp(-exp(b) / T) is already written in
+ * log-parameters (a = ln k0, b = ln(Ea/R)), so fitting a and b directly keeps every
+ * pre-exponential factor and activation energy positive.
+ */
+import { calculateReactionRates, type ZieglerModelInputs, type ZieglerModelOutputs } from './zieglerModel';
+import {
+    RATE_CONSTANT_NAMES,
+    defaultKineticParameters,
+    validateKineticParameterSet,
+    type KineticParameterSet,
+    type RateConstantName,
+} from './kineticParameters';
+import { correlationMatrix, levenbergMarquardt, parameterCovariance } from './levenbergMarquardt';
+import { instantaneousPolymerProperties } from './polymerProperties';
+import { studentTQuantile } from './statistics';
+import type { Matrix } from './linearAlgebra';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * Quantities that can be measured and compared with the model.
+ */
+export type MeasuredQuantity =
+    | 'polymerProductionRate'           // g/h
+    | 'ethyleneConsumption'             // mol/h (positive when consumed)
+    | 'hexeneConsumption'               // mol/h (positive when consumed)
+    | 'hydrogenConsumption'             // mol/h (positive when consumed)
+    | 'weightAverageMolecularWeight'    // g/mol, instantaneous dead polymer
+    | 'hexeneContent';                  // mol fraction of hexene in the polymer formed
+
+/**
+ * One measured value at known operating conditions.
+ */
+export interface Measurement {
+    conditions: ZieglerModelInputs;     // State of the reactor during the measurement
+    quantity: MeasuredQuantity;
+    value: number;
+    weight?: number;                    // Relative weight in the fit (default 1)
+    label?: string;                     // E.g. sample or run identifier
+}
+
+/**
+ * An Arrhenius coefficient that is adjusted by the fit.
+ */
+export interface FreeParameter {
+    name: RateConstantName;
+    coefficient: 'a' | 'b';
+    lower?: number;                     // Default: initial value - 10
+    upper?: number;                     // Default: initial value + 10
+}
+
+/**
+ * Controls of the regression. All fields are optional.
+ */
+export interface EstimationOptions {
+    initialParameters?: KineticParameterSet; // Starting point and source of the fixed parameters
+    confidenceLevel?: number;                // Two-sided level of the intervals (default 0.95)
+    maxIterations?: number;                  // Default 100
+    tolerance?: number;                      // Default 1e-10
+}
+
+/**
+ * Fitted value and statistics of one free parameter.
+ */
+export interface FittedParameter {
+    name: RateConstantName;
+    coefficient: 'a' | 'b';
+    initialValue: number;
+    value: number;
+    standardError: number;              // NaN if the data cannot identify the parameter or leave no degrees of freedom
+    confidenceInterval: [number, number];
+    atBound: boolean;
+}
+
+/**
+ * Comparison of one measurement with the fitted model.
+ */
+export interface ResidualEntry {
+    label: string;
+    quantity: MeasuredQuantity;
+    measured: number;
+    predicted: number;
+    residual: number;                   // weight * (predicted - measured) / |measured|
+}
+
+/**
+ * Complete result of a regression.
+ */
+export interface EstimationResult {
+    parameterSet: KineticParameterSet;  // Initial set with the fitted values substituted
+    parameters: FittedParameter[];
+    correlation: Matrix;                // Correlation matrix of the free parameters
+    residuals: ResidualEntry[];
+    sumOfSquares: number;
+    degreesOfFreedom: number;
+    iterations: number;
+    converged: boolean;
+    message: string;
+}
+
+
+// ===================================================================================
+// 2. MODEL PREDICTIONS
+// ===================================================================================
+
+/**
+ * Evaluates a measurable quantity from the model outputs.
+ */
+export function predictQuantity(quantity: MeasuredQuantity, outputs: ZieglerModelOutputs): number {
+    switch (quantity) {
+        case 'polymerProductionRate': return outputs.polymerProductionRate;
+        case 'ethyleneConsumption': return -outputs.rateEthylene;
+        case 'hexeneConsumption': return -outputs.rateHexene;
+        case 'hydrogenConsumption': return -outputs.rateHydrogen;
+        case 'weightAverageMolecularWeight':
+            return instantaneousPolymerProperties(outputs).combined.weightAverageMolecularWeight;
+        case 'hexeneContent':
+            return outputs.rateHexenesegment / (outputs.rateEthylenesegment + outputs.rateHexenesegment);
+    }
+}
+
+
+// ===================================================================================
+// 3. REGRESSION
+// ===================================================================================
+
+/**
+ * Fits the selected Arrhenius coefficients to a set of measurements.
+ * @param measurements The measured data points.
+ * @param freeParameters The coefficients to adjust, with optional bounds.
+ * @param options Starting parameter set and solver controls.
+ * @returns Fitted values, confidence intervals, correlation matrix and residuals. With as many
+ *          measurements as free parameters the intervals are NaN and the message says why.
+ */
+export function estimateParameters(measurements: Measurement[], freeParameters: FreeParameter[], options: EstimationOptions = {}): EstimationResult {
+    if (freeParameters.length === 0) {
+        throw new Error('At least one free parameter is required.');
+    }
+    if (measurements.length < freeParameters.length) {
+        throw new Error(`${measurements.length} measurements cannot determine ${freeParameters.length} parameters.`);
+    }
+    measurements.forEach((m, i) => {
+        if (!Number.isFinite(m.value) || m.value === 0) {
+            throw new Error(`Measurement ${m.label ?? i + 1} must have a finite, non-zero value.`);
+        }
+    });
+
+    const initial = options.initialParameters ?? defaultKineticParameters;
+    const x0 = freeParameters.map(p => initial.arrhenius[p.name][p.coefficient]);
+    const lower = freeParameters.map((p, i) => p.lower ?? x0[i] - 10);
+    const upper = freeParameters.map((p, i) => p.upper ?? x0[i] + 10);
+    x0.forEach((v, i) => {
+        if (!(lower[i] <= v && v <= upper[i])) {
+            throw new Error(`Initial value of ${freeParameters[i].name}.${freeParameters[i].coefficient} lies outside its bounds.`);
+        }
+    });
+
+    const buildSet = (x: number[]): KineticParameterSet => {
+        const arrhenius = { ...initial.arrhenius };
+        freeParameters.forEach((p, i) => {
+            arrhenius[p.name] = { ...arrhenius[p.name], [p.coefficient]: x[i] };
+        });
+        return { ...initial, arrhenius };
+    };
+
+    const predict = (x: number[]) => {
+        const set = buildSet(x);
+        return measurements.map(m => predictQuantity(m.quantity, calculateReactionRates(m.conditions, set)));
+    };
+
+    const residualFunction = (x: number[]) =>
+        predict(x).map((predicted, i) => {
+            const m = measurements[i];
+            return (m.weight ?? 1) * (predicted - m.value) / Math.abs(m.value);
+        });
+
+    const fit = levenbergMarquardt(residualFunction, x0, {
+        lower,
+        upper,
+        maxIterations: options.maxIterations,
+        tolerance: options.tolerance,
+        stepScale: x0.map(() => 1),
+    });
+
+    // --- Statistics ---
+    const degreesOfFreedom = measurements.length - freeParameters.length;
+    const covariance = parameterCovariance(fit.jacobian, fit.sumOfSquares);
+    const level = options.confidenceLevel ?? 0.95;
+    const t = studentTQuantile(0.5 + level / 2, degreesOfFreedom);
+
+    const parameters: FittedParameter[] = freeParameters.map((p, i) => {
+        const standardError = Math.sqrt(covariance[i][i]);
+        return {
+            name: p.name,
+            coefficient: p.coefficient,
+            initialValue: x0[i],
+            value: fit.x[i],
+            standardError,
+            confidenceInterval: [fit.x[i] - t * standardError, fit.x[i] + t * standardError],
+            atBound: fit.x[i] <= lower[i] || fit.x[i] >= upper[i],
+        };
+    });
+
+    const predictions = predict(fit.x);
+    const residuals: ResidualEntry[] = measurements.map((m, i) => ({
+        label: m.label ?? `#${i + 1}`,
+        quantity: m.quantity,
+        measured: m.value,
+        predicted: predictions[i],
+        residual: fit.residuals[i],
+    }));
+
+    return {
+        parameterSet: buildSet(fit.x),
+        parameters,
+        correlation: correlationMatrix(covariance),
+        residuals,
+        sumOfSquares: fit.sumOfSquares,
+        degreesOfFreedom,
+        iterations: fit.iterations,
+        converged: fit.converged,
+        message: degreesOfFreedom > 0
+            ? fit.message
+            : `${fit.message} As many measurements as free parameters leave no degrees of freedom: the standard errors and confidence intervals cannot be estimated.`,
+    };
+}
+
+
+// ===================================================================================
+// 4. SAVED RESULTS
+// ===================================================================================
+
+/**
+ * Reads a regression result saved as JSON (the serialized 'EstimationResult'), e.g. to
+ * load the fitted parameter set into the app together with the covariance of the fit.
+ * Standard errors written as null (NaN in JSON) are read back as NaN.
+ * @param json The JSON text.
+ * @returns The regression result.
+ * @throws Error listing every problem if the text is not a valid regression result.
+ */
+export function parseEstimationResult(json: string): EstimationResult {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (e) {
+        throw new Error(`Invalid JSON in regression result: ${(e as Error).message}`);
+    }
+    if (typeof data !== 'object' || data === null) {
+        throw new Error('Regression result must be a JSON object.');
+    }
+    const result = data as Partial<EstimationResult>;
+    const errors = validateKineticParameterSet(result.parameterSet).map(error => `parameterSet: ${error}`);
+
+    const parameters = Array.isArray(result.parameters) ? result.parameters : [];
+    if (!Array.isArray(result.parameters) || parameters.length === 0) {
+        errors.push('Field "parameters" must be a non-empty array of fitted parameters.');
+    }
+    parameters.forEach((p, i) => {
+        if (!RATE_CONSTANT_NAMES.includes(p?.name) || (p.coefficient !== 'a' && p.coefficient !== 'b')) {
+            errors.push(`Parameter ${i + 1} must name a rate constant and the coefficient 'a' or 'b'.`);
+        } else if (!Number.isFinite(p.value)) {
+            errors.push(`Parameter ${p.name} (${p.coefficient}) has no finite value.`);
+        }
+    });
+
+    const n = parameters.length;
+    const correlation = result.correlation;
+    if (!Array.isArray(correlation) || correlation.length !== n || correlation.some(row => !Array.isArray(row) || row.length !== n)) {
+        errors.push(`Field "correlation" must be a ${n} x ${n} matrix.`);
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid regression result:\n - ${errors.join('\n - ')}`);
+    }
+    const orNaN = (value: unknown) => (typeof value === 'number' ? value : NaN);
+    return {
+        ...(result as EstimationResult),
+        parameters: parameters.map(p => ({ ...p, standardError: orNaN(p.standardError) })),
+        correlation: correlation!.map(row => row.map(orNaN)),
+    };
+}
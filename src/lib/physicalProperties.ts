@@ -2,11 +2,15 @@
  * @file physicalProperties.ts
  *
  * This module is responsible for calculating temperature-dependent physical properties
- * of pure components using various correlation types.
+ * of pure components using various correlation types (evaluated in 'propertyCorrelations.ts').
+ * Every value carries its unit and provenance (see 'propertyCatalog.ts'): the correlation
+ * interval used, and whether it was extrapolated.
  *
  * Original source: Visual Basic modules for property calculation.
  */
 import { componentLibrary } from './componentData';
+import { calcAntoine, calcFunction, calcPuissance } from './propertyCorrelations';
+import { PROPERTY_CATALOG, type PhysicalProperty, type PropertyResult, type PropertyStatus } from './propertyCatalog';
 
 // ===================================================================================
 // 1. DATA STRUCTURES & INTERFACES
@@ -17,7 +21,7 @@ import { componentLibrary } from './componentData';
  * In the VB code, this was a class 'Coefficients_Propriétée'.
  */
 export interface PropertyCoefficients {
-    property_name: string;
+    property_name: PhysicalProperty;
     correlation_type: 'Type1' | 'Type2' | 'Type3' | 'Type4' | 'Type5' | 'Type6';
     // For correlations with temperature intervals
     has_intervals: boolean;
@@ -49,93 +53,28 @@ export interface ComponentConstants {
  */
 export interface PureComponent {
     constants: ComponentConstants;
-    properties: Map<string, PropertyCoefficients>; // Map property name to its formula
-    calculated_properties: Map<string, number>; // Stores the calculated values
+    properties: Map<PhysicalProperty, PropertyCoefficients>; // Map property name to its formula
+    calculated_properties: Map<PhysicalProperty, PropertyResult>; // Stores the calculated values
 }
 
 
 // ===================================================================================
-// 2. MATHEMATICAL HELPER FUNCTIONS (from VB code)
+// 2. INTERPOLATION (from VB code)
 // ===================================================================================
 
-const sinh = (x: number): number => Math.sinh(x);
-const cosh = (x: number): number => Math.cosh(x);
-const tanh = (x: number): number => Math.tanh(x);
-const coth = (x: number): number => cosh(x) / sinh(x);
-
-
-// ===================================================================================
-// 3. PROPERTY CALCULATION FUNCTIONS (from VB code)
-// ===================================================================================
-
-function calcPolynomial(T: number, coeff: PropertyCoefficients, index: number): number {
-    return (
-        coeff.coeff_0[index] +
-        coeff.coeff_1[index] * T +
-        coeff.coeff_2[index] * T ** 2 +
-        coeff.coeff_3[index] * T ** 3 +
-        coeff.coeff_4[index] * T ** 4
-    );
-}
-
-function calcAntoine(T: number, coeff: PropertyCoefficients, index: number): number {
-    return (
-        coeff.coeff_0[index] +
-        coeff.coeff_1[index] / T +
-        coeff.coeff_2[index] * Math.log(T) +
-        coeff.coeff_3[index] * T ** coeff.coeff_4[index]
-    );
-}
-
-function calcType3(T: number, coeff: PropertyCoefficients, index: number): number {
-    const term1 = coeff.coeff_0[index] * T ** coeff.coeff_1[index];
-    const term2 = 1 + coeff.coeff_2[index] / T + coeff.coeff_3[index] / T ** 2;
-    return term1 / term2;
-}
-
-function calcHyperbolic(T: number, coeff: PropertyCoefficients, index: number): number {
-    const term2_num = coeff.coeff_2[index] / T;
-    const term2 = (term2_num / sinh(term2_num)) ** 2;
-    const term3_num = coeff.coeff_4[index] / T;
-    const term3 = (term3_num / cosh(term3_num)) ** 2;
-    return (
-        coeff.coeff_0[index] +
-        coeff.coeff_1[index] * term2 +
-        coeff.coeff_3[index] * term3
-    );
-}
-
-function calcPuissance(Tr: number, coeff: PropertyCoefficients, index: number): number {
-    const exponent =
-        coeff.coeff_1[index] +
-        coeff.coeff_2[index] * Tr +
-        coeff.coeff_3[index] * Tr ** 2 +
-        coeff.coeff_4[index] * Tr ** 3;
-    return coeff.coeff_0[index] * (1 - Tr) ** exponent;
-}
-
-function calcEnthalpy(T: number, coeff: PropertyCoefficients, index: number, HForm: number): number {
-    const T_ref = 298.15; // Standard reference temperature
-    return (
-        HForm +
-        coeff.coeff_0[index] * (T - T_ref) +
-        coeff.coeff_1[index] * coeff.coeff_2[index] * (coth(coeff.coeff_2[index] / T) - coth(coeff.coeff_2[index] / T_ref)) -
-        coeff.coeff_3[index] * coeff.coeff_4[index] * (tanh(coeff.coeff_4[index] / T) - tanh(coeff.coeff_4[index] / T_ref))
-    );
-}
-
 /**
  * Estimates a property value by interpolation/extrapolation if the temperature is out of range.
  * This is a translation of the 'Interpolation' sub.
+ * @returns The value, and how far it is extrapolated ('failed' where the VB code gives up and returns 0).
  */
-function interpolateProperty(T: number, coeff: PropertyCoefficients, component: PureComponent): number {
+function interpolateProperty(T: number, coeff: PropertyCoefficients, component: PureComponent): { value: number; status: PropertyStatus } {
     let interpValue = 0;
     const Tk = T; // Already in Kelvin
     const Tr = Tk / component.constants.critical_temperature;
 
     // The VB code logic for interpolation is complex and seems to rely on the *first* interval's T_max.
     // We will replicate this logic. It might need review for physical accuracy.
-    if (!coeff.T_max || coeff.T_max.length === 0) return 0; // Cannot interpolate without a reference T_max
+    if (!coeff.T_max || coeff.T_max.length === 0) return { value: 0, status: 'failed' }; // Cannot interpolate without a reference T_max
 
     const T_max_ref = coeff.T_max[0];
     const correlationIndex = 0; // Interpolation logic in VB always used the first set of coefficients (temp=1)
@@ -152,6 +91,7 @@ function interpolateProperty(T: number, coeff: PropertyCoefficients, component:
     const Tr4 = Tk4 / component.constants.critical_temperature;
 
     let val1 = 0, val2 = 0, val3 = 0;
+    let failed = false;
 
     // The logic is split into two main blocks based on temperature
     if (Tk < 1.25 * T_max_ref) { // Extrapolation for a small range
@@ -177,6 +117,7 @@ function interpolateProperty(T: number, coeff: PropertyCoefficients, component:
                     interpValue = ((val3 - val1) / (Tr4 - Tr1) - (val2 - val1) / (Tr2 - Tr1)) / (Tr4 - Tr2) * (Tr - Tr1) ** 2 + ((val2 - val1) / (Tr2 - Tr1)) * (Tr - Tr1) + val1;
                 } else {
                     interpValue = 0;
+                    failed = true;
                 }
                 break;
         }
@@ -202,28 +143,81 @@ function interpolateProperty(T: number, coeff: PropertyCoefficients, component:
                     interpValue = ((val3 - val1) / (Tr4 - Tr1) - (val2 - val1) / (Tr2 - Tr1)) / (Tr4 - Tr2) * (Tr3 - Tr1) ** 2 + ((val2 - val1) / (Tr2 - Tr1)) * (Tr3 - Tr1) + val1;
                 } else {
                     interpValue = 0;
+                    failed = true;
                 }
                 break;
         }
     }
 
-    return interpValue;
+    // Below the interval the value is also extended from T_max: as unreliable as far above it
+    const status: PropertyStatus = failed || !Number.isFinite(interpValue) ? 'failed'
+        : Tk < 1.25 * T_max_ref && Tk > T_max_ref ? 'near-extrapolation'
+        : 'far-extrapolation';
+    return { value: interpValue, status };
 }
 
+
+// ===================================================================================
+// 3. EVALUATION
+// ===================================================================================
+
 /**
- * A helper to call the correct calculation function dynamically.
- * Used for interpolation where the function type is determined at runtime.
+ * Evaluates one property of a component with the interval that covers T, or by
+ * extrapolation, and records its unit and provenance.
  */
-function calcFunction(type: PropertyCoefficients['correlation_type'], Tk: number, Tr: number, coeff: PropertyCoefficients, index: number, hform: number): number {
-    switch (type) {
-        case 'Type1': return calcPolynomial(Tk, coeff, index);
-        case 'Type2': return Math.exp(calcAntoine(Tk, coeff, index));
-        case 'Type3': return calcType3(Tk, coeff, index);
-        case 'Type4': return calcHyperbolic(Tk, coeff, index);
-        case 'Type5': return calcPuissance(Tr, coeff, index);
-        case 'Type6': return calcEnthalpy(Tk, coeff, index, hform);
-        default: return 0;
+function evaluateProperty(T: number, coeff: PropertyCoefficients, component: PureComponent): PropertyResult {
+    const Tk = T; // Assuming input T is already in Kelvin
+    const Tr = Tk / component.constants.critical_temperature;
+    let correlationIndex = -1;
+
+    // Determine which set of coefficients to use based on temperature intervals
+    if (coeff.has_intervals && coeff.T_min && coeff.T_max) {
+        for (let i = 0; i < (coeff.interval_count || 0); i++) {
+            if (Tk >= coeff.T_min[i] && Tk <= coeff.T_max[i]) {
+                correlationIndex = i;
+                break;
+            }
+        }
+    } else {
+        correlationIndex = 0; // No intervals, use the first (and only) set of coefficients
     }
+
+    let value: number;
+    let status: PropertyStatus;
+    if (correlationIndex !== -1) {
+        // Temperature is within a valid range; a Type5 correlation has no meaning above Tc
+        value = calcFunction(coeff.correlation_type, Tk, Tr, coeff, correlationIndex, component.constants.enthalpy_formation);
+        status = !Number.isFinite(value) || (coeff.correlation_type === 'Type5' && Tr > 1) ? 'failed' : 'in-range';
+    } else {
+        // Temperature is out of range; the extrapolation starts from the first interval
+        ({ value, status } = interpolateProperty(Tk, coeff, component));
+        correlationIndex = 0;
+    }
+
+    return {
+        property: coeff.property_name,
+        value,
+        unit: PROPERTY_CATALOG[coeff.property_name].unit,
+        correlationType: coeff.correlation_type,
+        interval: coeff.has_intervals && coeff.T_min && coeff.T_max
+            ? { index: correlationIndex, T_min: coeff.T_min[correlationIndex], T_max: coeff.T_max[correlationIndex] }
+            : null,
+        status,
+    };
+}
+
+/**
+ * Calculates one temperature-dependent property of a component.
+ * @param componentName The component name in the library.
+ * @param property The property to calculate.
+ * @param T The temperature in Kelvin.
+ * @returns The value with its unit and provenance, or undefined if the component
+ *          is unknown or has no correlation for the property.
+ */
+export function calculateProperty(componentName: string, property: PhysicalProperty, T: number): PropertyResult | undefined {
+    const component = componentLibrary.get(componentName);
+    const coeff = component?.properties.get(property);
+    return component && coeff ? evaluateProperty(T, coeff, component) : undefined;
 }
 
 
@@ -251,39 +245,12 @@ export function calculateAllProperties(componentNames: string[], T: number): Map
         // Deep copy the component object to avoid modifying the original library data
         const componentClone = JSON.parse(JSON.stringify(component));
         componentClone.properties = component.properties; // Restore Map from original
-        componentClone.calculated_properties = new Map<string, number>();
+        componentClone.calculated_properties = new Map<PhysicalProperty, PropertyResult>();
 
-        const Tk = T; // Assuming input T is already in Kelvin
-        const Tr = Tk / componentClone.constants.critical_temperature;
-
-        // Loop through all properties defined for this component
+        // Loop through all properties defined for this component; values out of range are
+        // extrapolated, and their status says so
         for (const [propName, propCoeffs] of componentClone.properties.entries()) {
-            let value = 0;
-            let correlationIndex = -1;
-
-            // Determine which set of coefficients to use based on temperature intervals
-            if (propCoeffs.has_intervals && propCoeffs.T_min && propCoeffs.T_max) {
-                for (let i = 0; i < (propCoeffs.interval_count || 0); i++) {
-                    if (Tk >= propCoeffs.T_min[i] && Tk <= propCoeffs.T_max[i]) {
-                        correlationIndex = i;
-                        break;
-                    }
-                }
-            } else {
-                correlationIndex = 0; // No intervals, use the first (and only) set of coefficients
-            }
-
-            if (correlationIndex !== -1) {
-                // Temperature is within a valid range
-                value = calcFunction(propCoeffs.correlation_type, Tk, Tr, propCoeffs, correlationIndex, componentClone.constants.enthalpy_formation);
-            } else {
-                // Temperature is out of range, call interpolation
-                console.log(`Temperature ${Tk}K is out of range for property "${propName}". Interpolating...`);
-                value = interpolateProperty(Tk, propCoeffs, componentClone);
-            }
-
-            // Store the calculated value
-            componentClone.calculated_properties.set(propName, value);
+            componentClone.calculated_properties.set(propName, evaluateProperty(T, propCoeffs, componentClone));
         }
         results.set(name, componentClone);
     }
@@ -0,0 +1,161 @@
+/**
+ * @file polymerProperties.ts
+ *
+ * Derives the polymer quality properties an engineer reads (average chain lengths,
+ * molecular weights and polydispersity) from the polymer moments of the kinetic model.
+ *
+ * - Instantaneous properties describe the polymer being formed right now; they follow
+ *   from the rates of propagation and chain transfer on each site.
+ * - Cumulative properties describe all polymer made so far; they follow from the
+ *   accumulated dead polymer moments X_k (e.g. from a dynamic simulation or a CSTR).
+ * - Living properties describe the chains still growing, from the living moments Y_k.
+ */
+import type { ZieglerModelInputs, ZieglerModelOutputs } from './zieglerModel';
+import type { DeadPolymerMoments } from './reactorState';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * Averages of a chain-length distribution.
+ */
+export interface PolymerAverages {
+    numberAverageChainLength: number;       // DPn = mu1 / mu0 (segments)
+    weightAverageChainLength: number;       // DPw = mu2 / mu1 (segments)
+    numberAverageMolecularWeight: number;   // Mn (g/mol)
+    weightAverageMolecularWeight: number;   // Mw (g/mol)
+    polydispersity: number;                 // PDI = Mw / Mn
+}
+
+/**
+ * Polymer properties per site type and for the combined product.
+ */
+export interface PolymerProperties {
+    sites: PolymerAverages[];               // Index 0 = site type 1, index 1 = site type 2
+    combined: PolymerAverages;
+    siteMassFractions: number[];            // Share of the polymer mass made on each site type
+    segmentMolecularWeight: number;         // Average mass of one monomer unit (g/mol)
+}
+
+// Molecular weights of the monomer units, identical to those used in zieglerModel.ts
+const MC2 = 28; // Ethylene (g/mol)
+const MC6 = 84; // 1-Hexene (g/mol)
+
+
+// ===================================================================================
+// 2. CALCULATIONS
+// ===================================================================================
+
+/**
+ * Computes the distribution averages from the zeroth, first and second moments.
+ * Returns NaN averages when the moments describe no polymer.
+ * @param mu0 Zeroth moment (number of chains).
+ * @param mu1 First moment (number of segments).
+ * @param mu2 Second moment.
+ * @param segmentWeight Average molecular weight of a segment (g/mol).
+ */
+export function averagesFromMoments(mu0: number, mu1: number, mu2: number, segmentWeight: number): PolymerAverages {
+    const numberAverageChainLength = mu0 > 0 ? mu1 / mu0 : NaN;
+    const weightAverageChainLength = mu1 > 0 ? mu2 / mu1 : NaN;
+    return {
+        numberAverageChainLength,
+        weightAverageChainLength,
+        numberAverageMolecularWeight: numberAverageChainLength * segmentWeight,
+        weightAverageMolecularWeight: weightAverageChainLength * segmentWeight,
+        polydispersity: weightAverageChainLength / numberAverageChainLength,
+    };
+}
+
+/**
+ * Average molecular weight of the monomer units being incorporated, from the segment incorporation rates.
+ */
+export function segmentMolecularWeight(outputs: ZieglerModelOutputs): number {
+    const ethylene = outputs.rateEthylenesegment;
+    const hexene = outputs.rateHexenesegment;
+    const total = ethylene + hexene;
+    return total > 0 ? (ethylene * MC2 + hexene * MC6) / total : MC2;
+}
+
+/**
+ * Properties of the polymer currently being formed, with the growing chains in a
+ * quasi-steady state. A chain on a site adds a segment with probability
+ * p = Rp / (Rp + Rx0), where Rp is the propagation rate and Rx0 the rate at which chains
+ * stop growing (transfer to monomer and hydrogen, termination). The chains formed follow
+ * the most probable distribution, DPn = 1 + nu and DPw = 1 + 2 nu with the kinetic chain
+ * length nu = Rp / Rx0. Both rates are proportional to the growing chains of the site, so
+ * the averages depend on the concentrations and rate constants only.
+ * @param outputs The reaction rates of the model.
+ */
+export function instantaneousPolymerProperties(outputs: ZieglerModelOutputs): PolymerProperties {
+    const siteRates: [number, number][] = [
+        [outputs.ratePropagation_1, outputs.rateDeadPolymerMoment0_x0_1],
+        [outputs.ratePropagation_2, outputs.rateDeadPolymerMoment0_x0_2],
+    ];
+    // Moments of the chains formed per hour: mu0 = Rx0, mu1 = mu0 DPn, mu2 = mu1 DPw
+    const siteMoments = siteRates.map(([propagation, chainsFormed]): [number, number, number] => {
+        if (!(chainsFormed > 0)) return [0, 0, 0];
+        const mu1 = chainsFormed + propagation;
+        return [chainsFormed, mu1, mu1 * (1 + (2 * propagation) / chainsFormed)];
+    });
+    return propertiesFromSiteMoments(siteMoments, segmentMolecularWeight(outputs));
+}
+
+/**
+ * Properties of all polymer accumulated so far, from the dead polymer moments.
+ * @param moments The accumulated dead polymer moments.
+ * @param segmentWeight Average segment molecular weight of the accumulated polymer (g/mol).
+ */
+export function cumulativePolymerProperties(moments: DeadPolymerMoments, segmentWeight: number): PolymerProperties {
+    return propertiesFromSiteMoments(
+        [
+            [moments.deadPolymerMoment0_x0_1, moments.deadPolymerMoment1_x1_1, moments.deadPolymerMoment2_x2_1],
+            [moments.deadPolymerMoment0_x0_2, moments.deadPolymerMoment1_x1_2, moments.deadPolymerMoment2_x2_2],
+        ],
+        segmentWeight,
+    );
+}
+
+/**
+ * Properties of the growing (living) chains, from the living polymer moments.
+ * @param inputs The model inputs holding the living polymer moments.
+ * @param segmentWeight Average segment molecular weight (g/mol).
+ */
+export function livingPolymerProperties(inputs: ZieglerModelInputs, segmentWeight: number): PolymerProperties {
+    return propertiesFromSiteMoments(
+        [
+            [inputs.livingPolymerMoment0_y0_1, inputs.livingPolymerMoment1_y1_1, inputs.livingPolymerMoment2_y2_1],
+            [inputs.livingPolymerMoment0_y0_2, inputs.livingPolymerMoment1_y1_2, inputs.livingPolymerMoment2_y2_2],
+        ],
+        segmentWeight,
+    );
+}
+
+/**
+ * Average segment molecular weight of the polymer made between two states, from the
+ * monomer consumed. Ethylene hydrogenated to ethane is not counted as polymer.
+ */
+export function cumulativeSegmentMolecularWeight(
+    initial: { ethylene: number; hexene: number; ethane?: number },
+    current: { ethylene: number; hexene: number; ethane?: number },
+): number {
+    const ethaneFormed = (current.ethane ?? 0) - (initial.ethane ?? 0);
+    const ethylene = Math.max(initial.ethylene - current.ethylene - ethaneFormed, 0);
+    const hexene = Math.max(initial.hexene - current.hexene, 0);
+    const total = ethylene + hexene;
+    return total > 0 ? (ethylene * MC2 + hexene * MC6) / total : MC2;
+}
+
+function propertiesFromSiteMoments(siteMoments: [number, number, number][], segmentWeight: number): PolymerProperties {
+    const sites = siteMoments.map(([m0, m1, m2]) => averagesFromMoments(m0, m1, m2, segmentWeight));
+    const total = siteMoments.reduce(
+        (sum, moments) => [sum[0] + moments[0], sum[1] + moments[1], sum[2] + moments[2]],
+        [0, 0, 0],
+    );
+    return {
+        sites,
+        combined: averagesFromMoments(total[0], total[1], total[2], segmentWeight),
+        siteMassFractions: siteMoments.map(([, m1]) => (total[1] > 0 ? m1 / total[1] : NaN)),
+        segmentMolecularWeight: segmentWeight,
+    };
+}
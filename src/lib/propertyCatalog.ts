@@ -0,0 +1,100 @@
+/**
+ * @file propertyCatalog.ts
+ *
+ * The pure-component properties the library supports: for each its SI unit and the
+ * correlation types that may describe it. Also defines the result of evaluating a
+ * property, which records where the value comes from (the correlation interval used,
+ * and whether the temperature lies inside it or the value is extrapolated).
+ *
+ * Units follow the DIPPR conventions of the coefficient files (per kmol, Pa, Pa·s).
+ */
+import type { PropertyCoefficients } from './physicalProperties';
+
+// ===================================================================================
+// 1. CATALOG
+// ===================================================================================
+
+/** Property names, as they appear in the 'property' column of the coefficient files. */
+export enum PhysicalProperty {
+    VaporHeatCapacity = 'Vapor heat capacity',
+    LiquidHeatCapacity = 'Liquid heat capacity',
+    IdealGasEnthalpy = 'Ideal gas enthalpy',
+    HeatOfVaporization = 'Heat of vaporization',
+    VaporPressure = 'Vapor pressure',
+    LiquidViscosity = 'Liquid viscosity',
+    VaporViscosity = 'Vapor viscosity',
+    LiquidThermalConductivity = 'Liquid thermal conductivity',
+    VaporThermalConductivity = 'Vapor thermal conductivity',
+    SurfaceTension = 'Surface tension',
+}
+
+export type CorrelationType = PropertyCoefficients['correlation_type'];
+
+/**
+ * Definition of one property of the catalog.
+ */
+export interface PropertyDefinition {
+    unit: string;                                   // SI unit of the correlation
+    correlationTypes: readonly CorrelationType[];   // Types a coefficient file may use
+}
+
+export const PROPERTY_CATALOG: Record<PhysicalProperty, PropertyDefinition> = {
+    [PhysicalProperty.VaporHeatCapacity]: { unit: 'J/kmol/K', correlationTypes: ['Type1', 'Type4'] },
+    [PhysicalProperty.LiquidHeatCapacity]: { unit: 'J/kmol/K', correlationTypes: ['Type1'] },
+    // Type6 adds the enthalpy of formation (J/mol): its coefficients must be per mol
+    [PhysicalProperty.IdealGasEnthalpy]: { unit: 'J/mol', correlationTypes: ['Type6'] },
+    [PhysicalProperty.HeatOfVaporization]: { unit: 'J/kmol', correlationTypes: ['Type5'] },
+    [PhysicalProperty.VaporPressure]: { unit: 'Pa', correlationTypes: ['Type2'] },
+    [PhysicalProperty.LiquidViscosity]: { unit: 'Pa·s', correlationTypes: ['Type2'] },
+    [PhysicalProperty.VaporViscosity]: { unit: 'Pa·s', correlationTypes: ['Type3'] },
+    [PhysicalProperty.LiquidThermalConductivity]: { unit: 'W/m/K', correlationTypes: ['Type1'] },
+    [PhysicalProperty.VaporThermalConductivity]: { unit: 'W/m/K', correlationTypes: ['Type3'] },
+    [PhysicalProperty.SurfaceTension]: { unit: 'N/m', correlationTypes: ['Type5'] },
+};
+
+/**
+ * Looks up a property by name, ignoring case and surrounding spaces.
+ * @returns The property, or null if it is not in the catalog.
+ */
+export function parsePhysicalProperty(name: string): PhysicalProperty | null {
+    const key = name.trim().toLowerCase();
+    return Object.values(PhysicalProperty).find(p => p.toLowerCase() === key) ?? null;
+}
+
+
+// ===================================================================================
+// 2. EVALUATION RESULTS
+// ===================================================================================
+
+/**
+ * How a value was obtained:
+ * - 'in-range': the temperature lies in a correlation interval (or the property has none);
+ * - 'near-extrapolation': above the interval, up to 1.25 times its upper limit, the
+ *   correlation is extended along its slope at the upper limit;
+ * - 'far-extrapolation': further above, the value is frozen at 1.25 times the upper
+ *   limit; below the interval the value is also extended from the upper limit;
+ * - 'failed': no meaningful value, e.g. a Type5 correlation above the critical temperature.
+ */
+export type PropertyStatus = 'in-range' | 'near-extrapolation' | 'far-extrapolation' | 'failed';
+
+/**
+ * A property value with its unit and provenance.
+ */
+export interface PropertyResult {
+    property: PhysicalProperty;
+    value: number;                      // In `unit`; 0 or NaN when the status is 'failed'
+    unit: string;
+    correlationType: CorrelationType;
+    interval: { index: number; T_min: number; T_max: number } | null;   // Interval used (K); null without intervals
+    status: PropertyStatus;
+}
+
+/**
+ * Formats a result as text, e.g. '1.6042e+4 J/kmol/K (near extrapolation, interval 200-500 K)'.
+ */
+export function formatPropertyResult(result: PropertyResult): string {
+    const value = `${result.value.toPrecision(5)} ${result.unit}`;
+    if (result.status === 'in-range') return value;
+    const interval = result.interval ? `, interval ${result.interval.T_min}-${result.interval.T_max} K` : '';
+    return `${value} (${result.status.replace('-', ' ')}${interval})`;
+}
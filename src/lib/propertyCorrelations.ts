@@ -0,0 +1,97 @@
+/**
+ * @file propertyCorrelations.ts
+ *
+ * The temperature correlations of the component library (Type1 to Type6), evaluated
+ * for one set of coefficients. Kept apart from 'physicalProperties.ts' so that the
+ * component data loader can use them while the library is being built.
+ *
+ * Original source: Visual Basic modules for property calculation.
+ */
+import type { PropertyCoefficients } from './physicalProperties';
+
+// ===================================================================================
+// 1. MATHEMATICAL HELPER FUNCTIONS (from VB code)
+// ===================================================================================
+
+const sinh = (x: number): number => Math.sinh(x);
+const cosh = (x: number): number => Math.cosh(x);
+const tanh = (x: number): number => Math.tanh(x);
+const coth = (x: number): number => cosh(x) / sinh(x);
+
+
+// ===================================================================================
+// 2. PROPERTY CALCULATION FUNCTIONS (from VB code)
+// ===================================================================================
+
+export function calcPolynomial(T: number, coeff: PropertyCoefficients, index: number): number {
+    return (
+        coeff.coeff_0[index] +
+        coeff.coeff_1[index] * T +
+        coeff.coeff_2[index] * T ** 2 +
+        coeff.coeff_3[index] * T ** 3 +
+        coeff.coeff_4[index] * T ** 4
+    );
+}
+
+export function calcAntoine(T: number, coeff: PropertyCoefficients, index: number): number {
+    return (
+        coeff.coeff_0[index] +
+        coeff.coeff_1[index] / T +
+        coeff.coeff_2[index] * Math.log(T) +
+        coeff.coeff_3[index] * T ** coeff.coeff_4[index]
+    );
+}
+
+export function calcType3(T: number, coeff: PropertyCoefficients, index: number): number {
+    const term1 = coeff.coeff_0[index] * T ** coeff.coeff_1[index];
+    const term2 = 1 + coeff.coeff_2[index] / T + coeff.coeff_3[index] / T ** 2;
+    return term1 / term2;
+}
+
+export function calcHyperbolic(T: number, coeff: PropertyCoefficients, index: number): number {
+    const term2_num = coeff.coeff_2[index] / T;
+    const term2 = (term2_num / sinh(term2_num)) ** 2;
+    const term3_num = coeff.coeff_4[index] / T;
+    const term3 = (term3_num / cosh(term3_num)) ** 2;
+    return (
+        coeff.coeff_0[index] +
+        coeff.coeff_1[index] * term2 +
+        coeff.coeff_3[index] * term3
+    );
+}
+
+export function calcPuissance(Tr: number, coeff: PropertyCoefficients, index: number): number {
+    const exponent =
+        coeff.coeff_1[index] +
+        coeff.coeff_2[index] * Tr +
+        coeff.coeff_3[index] * Tr ** 2 +
+        coeff.coeff_4[index] * Tr ** 3;
+    return coeff.coeff_0[index] * (1 - Tr) ** exponent;
+}
+
+export function calcEnthalpy(T: number, coeff: PropertyCoefficients, index: number, HForm: number): number {
+    const T_ref = 298.15; // Standard reference temperature
+    return (
+        HForm +
+        coeff.coeff_0[index] * (T - T_ref) +
+        coeff.coeff_1[index] * coeff.coeff_2[index] * (coth(coeff.coeff_2[index] / T) - coth(coeff.coeff_2[index] / T_ref)) -
+        coeff.coeff_3[index] * coeff.coeff_4[index] * (tanh(coeff.coeff_4[index] / T) - tanh(coeff.coeff_4[index] / T_ref))
+    );
+}
+
+/**
+ * A helper to call the correct calculation function dynamically.
+ * Used for interpolation where the function type is determined at runtime, and by the
+ * continuity checks of 'componentLoader.ts'.
+ */
+export function calcFunction(type: PropertyCoefficients['correlation_type'], Tk: number, Tr: number, coeff: PropertyCoefficients, index: number, hform: number): number {
+    switch (type) {
+        case 'Type1': return calcPolynomial(Tk, coeff, index);
+        case 'Type2': return Math.exp(calcAntoine(Tk, coeff, index));
+        case 'Type3': return calcType3(Tk, coeff, index);
+        case 'Type4': return calcHyperbolic(Tk, coeff, index);
+        case 'Type5': return calcPuissance(Tr, coeff, index);
+        case 'Type6': return calcEnthalpy(Tk, coeff, index, hform);
+        default: return 0;
+    }
+}
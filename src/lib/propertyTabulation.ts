@@ -0,0 +1,252 @@
+/**
+ * @file propertyTabulation.ts
+ *
+ * Tables of a pure-component property over a temperature grid, and the inverse
+ * question: the temperature at which a property reaches a given value, e.g. the
+ * boiling point at the reactor pressure (vapor pressure = P) or the temperature where
+ * the liquid viscosity reaches a limit.
+ *
+ * Both evaluate the property as 'physicalProperties.ts' does, so values outside the
+ * correlation intervals follow the extrapolation rules of `interpolateProperty` and
+ * carry their status. The inverse search stays where the property still varies with
+ * temperature: inside the intervals and, if allowed, in the near-extrapolation range
+ * above them (far extrapolation freezes the value, Type5 correlations end at Tc).
+ */
+import { componentLibrary } from './componentData';
+import { calculateProperty } from './physicalProperties';
+import { PROPERTY_CATALOG, PhysicalProperty, type PropertyResult, type PropertyStatus } from './propertyCatalog';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * One row of a property table.
+ */
+export interface PropertyTableRow {
+    temperature: number;                // K
+    value: number;                      // In the unit of the table
+    status: PropertyStatus;
+}
+
+/**
+ * A property of one component over a temperature grid.
+ */
+export interface PropertyTable {
+    component: string;
+    property: PhysicalProperty;
+    unit: string;
+    rows: PropertyTableRow[];
+}
+
+/**
+ * Options of the temperature search. All fields are optional.
+ */
+export interface TemperatureSearchOptions {
+    T_low?: number;                     // Lower end of the search (K); default: start of the correlation
+    T_high?: number;                    // Upper end of the search (K); default: end of the correlation
+    allowExtrapolation?: boolean;       // Extend the default range into near extrapolation (default false)
+    tolerance?: number;                 // On the temperature (K, default 1e-6)
+    maxIterations?: number;             // Default 100
+}
+
+/**
+ * Temperature at which a property reaches a target value.
+ */
+export interface TemperatureSolution {
+    temperature: number;                // K
+    result: PropertyResult;             // The property at that temperature, with its status
+    residual: number;                   // value - target; large only where two intervals do not join
+    iterations: number;
+}
+
+// Grid of the scan for a sign change when the ends of the range do not bracket the target
+const SCAN_POINTS = 64;
+
+
+// ===================================================================================
+// 2. TABULATION
+// ===================================================================================
+
+/**
+ * Tabulates a property of a component on an evenly spaced temperature grid.
+ * @param component The component name in the library.
+ * @param property The property to tabulate.
+ * @param T_start The first temperature in Kelvin.
+ * @param T_end The last temperature in Kelvin.
+ * @param points The number of temperatures (at least 2).
+ * @returns The table, with the status of every value.
+ * @throws Error if the component has no correlation for the property, or for an invalid grid.
+ */
+export function tabulateProperty(component: string, property: PhysicalProperty, T_start: number, T_end: number, points = 51): PropertyTable {
+    if (!(T_start > 0) || !(T_end > T_start) || !(Number.isInteger(points) && points >= 2)) {
+        throw new Error(`Invalid temperature grid: ${points} points from ${T_start} to ${T_end} K.`);
+    }
+    const rows = Array.from({ length: points }, (_, i) => {
+        const temperature = T_start + ((T_end - T_start) * i) / (points - 1);
+        const { value, status } = evaluate(component, property, temperature);
+        return { temperature, value, status };
+    });
+    return { component, property, unit: PROPERTY_CATALOG[property].unit, rows };
+}
+
+/**
+ * Writes a table as CSV: temperature, value and status columns.
+ */
+export function propertyTableToCsv(table: PropertyTable): string {
+    const header = ['T (K)', `${table.property} (${table.unit})`, 'status'];
+    const rows = table.rows.map(row => [row.temperature.toPrecision(8), row.value.toPrecision(8), row.status].join(','));
+    return [header.join(','), ...rows].join('\n');
+}
+
+
+// ===================================================================================
+// 3. INVERSE: TEMPERATURE FOR A VALUE
+// ===================================================================================
+
+/**
+ * Root of f between a and b by Brent's method (bisection, secant and inverse quadratic
+ * interpolation). f(a) and f(b) must have opposite signs, or one of them be zero.
+ * @returns The root and the number of iterations.
+ * @throws Error if the interval does not bracket a root.
+ */
+export function brentRoot(f: (x: number) => number, a: number, b: number, tolerance = 1e-10, maxIterations = 100): { root: number; iterations: number } {
+    let fa = f(a);
+    let fb = f(b);
+    if (fa === 0) return { root: a, iterations: 0 };
+    if (fb === 0) return { root: b, iterations: 0 };
+    if (Math.sign(fa) === Math.sign(fb)) {
+        throw new Error(`No sign change between ${a} and ${b}.`);
+    }
+    let c = a;
+    let fc = fa;
+    let d = b - a;
+    let e = d;
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+        // Keep the root between b and c, with b the best estimate
+        if (Math.sign(fb) === Math.sign(fc)) {
+            c = a;
+            fc = fa;
+            d = e = b - a;
+        }
+        if (Math.abs(fc) < Math.abs(fb)) {
+            [a, b, c] = [b, c, b];
+            [fa, fb, fc] = [fb, fc, fb];
+        }
+        const tol = 2 * Number.EPSILON * Math.abs(b) + tolerance / 2;
+        const m = (c - b) / 2;
+        if (Math.abs(m) <= tol || fb === 0) return { root: b, iterations: iteration };
+
+        if (Math.abs(e) >= tol && Math.abs(fa) > Math.abs(fb)) {
+            // Secant (two points) or inverse quadratic interpolation (three points)
+            const s = fb / fa;
+            let p: number;
+            let q: number;
+            if (a === c) {
+                p = 2 * m * s;
+                q = 1 - s;
+            } else {
+                const r = fb / fc;
+                const t = fa / fc;
+                p = s * (2 * m * t * (t - r) - (b - a) * (r - 1));
+                q = (t - 1) * (r - 1) * (s - 1);
+            }
+            if (p > 0) q = -q;
+            else p = -p;
+            if (2 * p < Math.min(3 * m * q - Math.abs(tol * q), Math.abs(e * q))) {
+                e = d;
+                d = p / q;
+            } else {
+                d = e = m;
+            }
+        } else {
+            d = e = m;
+        }
+        a = b;
+        fa = fb;
+        b += Math.abs(d) > tol ? d : m > 0 ? tol : -tol;
+        fb = f(b);
+    }
+    return { root: b, iterations: maxIterations };
+}
+
+/**
+ * Finds the temperature at which a property of a component equals a target value.
+ * When the ends of the search range do not bracket the target (a property with a
+ * maximum or minimum), the range is scanned and the lowest crossing is returned.
+ * @param component The component name in the library.
+ * @param property The property, e.g. `PhysicalProperty.VaporPressure`.
+ * @param target The value, in the unit of the property (see `PROPERTY_CATALOG`).
+ * @param options Search range and tolerance.
+ * @returns The temperature and the property there.
+ * @throws Error if the component has no correlation for the property, or no temperature
+ *         in the range gives the target.
+ */
+export function solveTemperature(component: string, property: PhysicalProperty, target: number, options: TemperatureSearchOptions = {}): TemperatureSolution {
+    const [defaultLow, defaultHigh] = searchRange(component, property, options.allowExtrapolation ?? false);
+    const T_low = options.T_low ?? defaultLow;
+    const T_high = options.T_high ?? defaultHigh;
+    if (!(T_low > 0) || !(T_high > T_low)) {
+        throw new Error(`Invalid search range ${T_low} to ${T_high} K.`);
+    }
+    const f = (T: number) => evaluate(component, property, T).value - target;
+
+    // Bracket: the whole range, or the first sign change on a scan (failed values are NaN and skipped)
+    let [a, b] = [T_low, T_high];
+    if (!(f(a) * f(b) <= 0)) {
+        const grid = Array.from({ length: SCAN_POINTS + 1 }, (_, i) => T_low + ((T_high - T_low) * i) / SCAN_POINTS);
+        const residuals = grid.map(f);
+        const k = residuals.findIndex((r, i) => i > 0 && residuals[i - 1] * r <= 0);
+        if (k === -1) {
+            const unit = PROPERTY_CATALOG[property].unit;
+            throw new Error(`${property} of ${component} does not reach ${target} ${unit} between ${T_low.toFixed(2)} and ${T_high.toFixed(2)} K.`);
+        }
+        [a, b] = [grid[k - 1], grid[k]];
+    }
+
+    const { root, iterations } = brentRoot(f, a, b, options.tolerance ?? 1e-6, options.maxIterations ?? 100);
+    const result = evaluate(component, property, root);
+    return { temperature: root, result, residual: result.value - target, iterations };
+}
+
+/**
+ * Boiling temperature at a pressure: the temperature where the vapor pressure equals it.
+ * @param component The component name in the library.
+ * @param P The pressure in bar.
+ * @returns The boiling temperature in Kelvin.
+ * @throws Error without a vapor pressure correlation, or above the critical pressure.
+ */
+export function boilingTemperature(component: string, P: number): number {
+    return solveTemperature(component, PhysicalProperty.VaporPressure, P * 1e5).temperature;
+}
+
+/** The property at T; throws if the component has no correlation for it. */
+function evaluate(component: string, property: PhysicalProperty, T: number): PropertyResult {
+    const result = calculateProperty(component, property, T);
+    if (!result) {
+        throw new Error(`Component "${component}" has no ${property} correlation.`);
+    }
+    return result;
+}
+
+/**
+ * Default search range: from the start to the end of the correlation intervals, or up
+ * to the end of near extrapolation (1.25 times the upper limit of the first interval,
+ * as in `interpolateProperty`). Without intervals: 0.3 to 1.5 times the critical
+ * temperature. Type5 correlations stop at the critical temperature.
+ */
+function searchRange(component: string, property: PhysicalProperty, allowExtrapolation: boolean): [number, number] {
+    const data = componentLibrary.get(component);
+    const coeff = data?.properties.get(property);
+    if (!data || !coeff) {
+        throw new Error(`Component "${component}" has no ${property} correlation.`);
+    }
+    const Tc = data.constants.critical_temperature;
+    let [low, high] = [0.3 * Tc, 1.5 * Tc];
+    if (coeff.has_intervals && coeff.T_min && coeff.T_max) {
+        low = Math.min(...coeff.T_min);
+        high = Math.max(...coeff.T_max);
+        if (allowExtrapolation) high = Math.max(high, 1.25 * coeff.T_max[0] * (1 - 1e-9));
+    }
+    return [low, coeff.correlation_type === 'Type5' ? Math.min(high, Tc) : high];
+}
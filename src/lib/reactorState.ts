@@ -0,0 +1,180 @@
+/**
+ * @file reactorState.ts
+ *
+ * Describes the full dynamic state of the reactor contents and maps it to and from
+ * the flat vectors used by the numerical solvers.
+ */
+import type { ZieglerModelInputs, ZieglerModelOutputs } from './zieglerModel';
+import type { Vector } from './linearAlgebra';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * Concentrations of the dead polymer moments (moles/liter).
+ * They are not needed to evaluate the reaction rates, but they accumulate over time
+ * and carry the polymer properties of the product.
+ */
+export interface DeadPolymerMoments {
+    deadPolymerMoment0_x0_1: number; // X0_1: Zeroth moment of dead polymer on site 1
+    deadPolymerMoment0_x0_2: number; // X0_2: Zeroth moment of dead polymer on site 2
+    deadPolymerMoment1_x1_1: number; // X1_1: First moment of dead polymer on site 1
+    deadPolymerMoment1_x1_2: number; // X1_2: First moment of dead polymer on site 2
+    deadPolymerMoment2_x2_1: number; // X2_1: Second moment of dead polymer on site 1
+    deadPolymerMoment2_x2_2: number; // X2_2: Second moment of dead polymer on site 2
+}
+
+/**
+ * Concentrations of species that do not take part in the polymerization (moles/liter):
+ * inerts that only pass through the reactor, and ethane formed by ethylene hydrogenation.
+ */
+export interface SpectatorSpecies {
+    nitrogen: number;
+    ethane: number;
+    propane: number;
+    butene: number;
+    isobutane: number;          // Diluent
+    hexane: number;
+    water: number;
+    carbonMonoxide: number;
+    methane: number;
+}
+
+/**
+ * The complete reactor state: model inputs plus the accumulated dead polymer moments
+ * and the spectator species. A ReactorState can be passed directly to `calculateReactionRates`.
+ */
+export interface ReactorState extends ZieglerModelInputs, DeadPolymerMoments, SpectatorSpecies {}
+
+/** Names of all state variables that change over time. */
+export type StateVariable = keyof Omit<ReactorState, 'volume' | 'temperature' | 'reactorFlag'>;
+
+/**
+ * Molar flows of a process stream (mol/h), keyed by state variable.
+ * Species that are absent from the object have zero flow.
+ */
+export type StreamFlows = Partial<Record<StateVariable, number>>;
+
+
+// ===================================================================================
+// 2. STATE VARIABLE CATALOG
+// ===================================================================================
+
+/**
+ * Every time-dependent state variable paired with the output field holding its rate (mol/h).
+ * The order of this list defines the layout of the state vector.
+ */
+export const STATE_VARIABLES: ReadonlyArray<{ key: StateVariable; rate: keyof ZieglerModelOutputs }> = [
+    { key: 'hydrogen', rate: 'rateHydrogen' },
+    { key: 'ethylene', rate: 'rateEthylene' },
+    { key: 'hexene', rate: 'rateHexene' },
+    { key: 'catalyst', rate: 'rateCatalyst' },
+    { key: 'cr6', rate: 'rateCr6' },
+    { key: 'cocatalyst', rate: 'rateCocatalyst' },
+    { key: 'activeSites_z0_1', rate: 'rateActiveSites_z0_1' },
+    { key: 'activeSites_z0_2', rate: 'rateActiveSites_z0_2' },
+    { key: 'livingPolymerEnd_z1_1', rate: 'rateLivingPolymerEnd_z1_1' },
+    { key: 'livingPolymerEnd_z1_2', rate: 'rateLivingPolymerEnd_z1_2' },
+    { key: 'livingPolymerEnd_z2_1', rate: 'rateLivingPolymerEnd_z2_1' },
+    { key: 'livingPolymerEnd_z2_2', rate: 'rateLivingPolymerEnd_z2_2' },
+    { key: 'livingPolymerMoment0_y0_1', rate: 'rateLivingPolymerMoment0_y0_1' },
+    { key: 'livingPolymerMoment0_y0_2', rate: 'rateLivingPolymerMoment0_y0_2' },
+    { key: 'livingPolymerMoment1_y1_1', rate: 'rateLivingPolymerMoment1_y1_1' },
+    { key: 'livingPolymerMoment1_y1_2', rate: 'rateLivingPolymerMoment1_y1_2' },
+    { key: 'livingPolymerMoment2_y2_1', rate: 'rateLivingPolymerMoment2_y2_1' },
+    { key: 'livingPolymerMoment2_y2_2', rate: 'rateLivingPolymerMoment2_y2_2' },
+    { key: 'deadPolymerMoment0_x0_1', rate: 'rateDeadPolymerMoment0_x0_1' },
+    { key: 'deadPolymerMoment0_x0_2', rate: 'rateDeadPolymerMoment0_x0_2' },
+    { key: 'deadPolymerMoment1_x1_1', rate: 'rateDeadPolymerMoment1_x1_1' },
+    { key: 'deadPolymerMoment1_x1_2', rate: 'rateDeadPolymerMoment1_x1_2' },
+    { key: 'deadPolymerMoment2_x2_1', rate: 'rateDeadPolymerMoment2_x2_1' },
+    { key: 'deadPolymerMoment2_x2_2', rate: 'rateDeadPolymerMoment2_x2_2' },
+    { key: 'nitrogen', rate: 'rateNitrogen' },
+    { key: 'ethane', rate: 'rateEthane' },
+    { key: 'propane', rate: 'ratePropane' },
+    { key: 'butene', rate: 'rateButene' },
+    { key: 'isobutane', rate: 'rateIsobutane' },
+    { key: 'hexane', rate: 'rateHexane' },
+    { key: 'water', rate: 'rateWater' },
+    { key: 'carbonMonoxide', rate: 'rateCarbonMonoxide' },
+    { key: 'methane', rate: 'rateMethane' },
+];
+
+/** Dead polymer moments of a fresh reactor (no polymer yet). */
+export const EMPTY_DEAD_POLYMER_MOMENTS: DeadPolymerMoments = {
+    deadPolymerMoment0_x0_1: 0,
+    deadPolymerMoment0_x0_2: 0,
+    deadPolymerMoment1_x1_1: 0,
+    deadPolymerMoment1_x1_2: 0,
+    deadPolymerMoment2_x2_1: 0,
+    deadPolymerMoment2_x2_2: 0,
+};
+
+/** A reactor without spectator species. */
+export const EMPTY_SPECTATOR_SPECIES: SpectatorSpecies = {
+    nitrogen: 0,
+    ethane: 0,
+    propane: 0,
+    butene: 0,
+    isobutane: 0,
+    hexane: 0,
+    water: 0,
+    carbonMonoxide: 0,
+    methane: 0,
+};
+
+
+// ===================================================================================
+// 3. CONVERSIONS
+// ===================================================================================
+
+/**
+ * Completes model inputs with (zero) dead polymer moments and spectator species where they are missing.
+ */
+export function toReactorState(inputs: ZieglerModelInputs & Partial<DeadPolymerMoments & SpectatorSpecies>): ReactorState {
+    return { ...EMPTY_DEAD_POLYMER_MOMENTS, ...EMPTY_SPECTATOR_SPECIES, ...inputs };
+}
+
+/**
+ * Packs the time-dependent variables of a state into a vector (moles/liter).
+ */
+export function stateToVector(state: ReactorState): Vector {
+    return STATE_VARIABLES.map(({ key }) => state[key]);
+}
+
+/**
+ * Unpacks a state vector, taking the fixed parameters (volume, temperature, flag) from a template.
+ */
+export function vectorToState(vector: Vector, template: ReactorState): ReactorState {
+    const state: ReactorState = { ...template };
+    STATE_VARIABLES.forEach(({ key }, i) => {
+        state[key] = vector[i];
+    });
+    return state;
+}
+
+/**
+ * Packs the molar flows of a stream into a vector laid out like the state vector (mol/h).
+ */
+export function flowsToVector(flows: StreamFlows): Vector {
+    return STATE_VARIABLES.map(({ key }) => flows[key] ?? 0);
+}
+
+/**
+ * Unpacks a vector of molar flows (mol/h) into a stream object.
+ */
+export function vectorToFlows(vector: Vector): Required<StreamFlows> {
+    const flows = {} as Required<StreamFlows>;
+    STATE_VARIABLES.forEach(({ key }, i) => {
+        flows[key] = vector[i];
+    });
+    return flows;
+}
+
+/**
+ * Converts the model rates (mol/h for the whole reactor) into concentration derivatives (mol/L/h).
+ */
+export function ratesToVector(outputs: ZieglerModelOutputs, volume: number): Vector {
+    return STATE_VARIABLES.map(({ rate }) => outputs[rate] / volume);
+}
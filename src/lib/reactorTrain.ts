@@ -0,0 +1,189 @@
+/**
+ * @file reactorTrain.ts
+ *
+ * Steady-state simulation of reactors in series. Every stage is a CSTR with its own
+ * volume, temperature, reactor flag and fresh feeds; the complete outlet of a stage
+ * (monomers, hydrogen, catalyst species, active sites and living and dead polymer
+ * moments) enters the next stage together with that stage's fresh feed.
+ *
+ * Running the stages at different hydrogen and comonomer levels gives each stage its
+ * own molecular weight and composition, which is how bimodal grades are made.
+ */
+import { solveCstrSteadyState, type CstrFeed, type CstrSolverOptions, type CstrSteadyState } from './cstrSolver';
+import type { KineticParameterSet } from './kineticParameters';
+import {
+    cumulativePolymerProperties,
+    cumulativeSegmentMolecularWeight,
+    type PolymerProperties,
+} from './polymerProperties';
+import { STATE_VARIABLES, type DeadPolymerMoments, type StreamFlows } from './reactorState';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * One reactor of the train. Give either `outletFlow` or `residenceTime`.
+ */
+export interface ReactorStage {
+    name?: string;                          // E.g. 'R1'; default 'Stage n'
+    volume: number;                         // V: Reactor volume (liters)
+    temperature: number;                    // T: Reactor temperature (Kelvin)
+    reactorFlag: number;                    // Selects the reactor for the 'eth' constant
+    feed: StreamFlows;                      // Fresh feed of this stage (mol/h); missing species are zero
+    outletFlow?: number;                    // Volumetric outlet flow (liters/hour)
+    residenceTime?: number;                 // tau = V / outletFlow (hours)
+    kineticParameters?: KineticParameterSet; // Default: the original model constants
+}
+
+/**
+ * Steady state of one stage of the train.
+ */
+export interface StageResult {
+    name: string;
+    inlet: StreamFlows;                     // Upstream outlet + fresh feed (mol/h)
+    steadyState: CstrSteadyState;
+    productionRate: number;                 // Polymer made in this stage (g/h)
+    productionSplit: number;                // Share of the total polymer made in this stage
+    stagePolymer: PolymerProperties;        // Polymer made in this stage (outlet minus inlet dead and living moments)
+    outletPolymer: PolymerProperties;       // All polymer leaving this stage (this and upstream stages)
+}
+
+/**
+ * Result of the reactor train simulation.
+ */
+export interface ReactorTrainResult {
+    converged: boolean;
+    stages: StageResult[];                  // Solved stages (up to the first failure)
+    totalProductionRate: number;            // g/h
+    finalPolymer: PolymerProperties | null; // Product leaving the last stage
+    message: string;
+}
+
+
+// ===================================================================================
+// 2. SIMULATION
+// ===================================================================================
+
+/**
+ * Solves the stages of a reactor train one after the other.
+ * @param stages The reactors in flow order.
+ * @param options Options passed to the steady-state solver of every stage.
+ * @returns Per-stage steady states, the production split and the final polymer properties.
+ */
+export function simulateReactorTrain(stages: ReactorStage[], options: CstrSolverOptions = {}): ReactorTrainResult {
+    if (stages.length === 0) {
+        throw new Error('A reactor train needs at least one stage.');
+    }
+
+    const results: StageResult[] = [];
+    let upstream: StreamFlows = {};
+    const fed = { ethylene: 0, hexene: 0, ethane: 0 }; // Fresh feed up to the current stage (mol/h)
+
+    for (const [index, stage] of stages.entries()) {
+        const name = stage.name ?? `Stage ${index + 1}`;
+        const inlet = addFlows(upstream, stage.feed);
+        fed.ethylene += stage.feed.ethylene ?? 0;
+        fed.hexene += stage.feed.hexene ?? 0;
+        fed.ethane += stage.feed.ethane ?? 0;
+
+        const result = solveCstrSteadyState(
+            {
+                volume: stage.volume,
+                temperature: stage.temperature,
+                reactorFlag: stage.reactorFlag,
+                feed: inlet as CstrFeed,
+                outletFlow: stage.outletFlow,
+                residenceTime: stage.residenceTime,
+                kineticParameters: stage.kineticParameters,
+            },
+            options,
+        );
+        if (!result.solution) {
+            return finish(results, `${name}: ${result.message}`, false);
+        }
+
+        const steadyState = result.solution;
+        const outlet = steadyState.outlet;
+        results.push({
+            name,
+            inlet,
+            steadyState,
+            productionRate: steadyState.polymerProductionRate,
+            productionSplit: NaN, // Filled in once the total is known
+            stagePolymer: cumulativePolymerProperties(
+                subtractMoments(totalPolymerMoments(outlet), totalPolymerMoments(inlet)),
+                cumulativeSegmentMolecularWeight(
+                    { ethylene: inlet.ethylene ?? 0, hexene: inlet.hexene ?? 0, ethane: inlet.ethane ?? 0 },
+                    outlet,
+                ),
+            ),
+            outletPolymer: cumulativePolymerProperties(
+                totalPolymerMoments(outlet),
+                cumulativeSegmentMolecularWeight(fed, outlet),
+            ),
+        });
+        upstream = outlet;
+    }
+
+    return finish(results, `Solved ${results.length} stage(s).`, true);
+}
+
+function finish(stages: StageResult[], message: string, converged: boolean): ReactorTrainResult {
+    const totalProductionRate = stages.reduce((sum, s) => sum + s.productionRate, 0);
+    for (const stage of stages) {
+        stage.productionSplit = totalProductionRate > 0 ? stage.productionRate / totalProductionRate : NaN;
+    }
+    return {
+        converged,
+        stages,
+        totalProductionRate,
+        finalPolymer: converged ? stages[stages.length - 1].outletPolymer : null,
+        message,
+    };
+}
+
+
+// ===================================================================================
+// 3. STREAM HELPERS
+// ===================================================================================
+
+/**
+ * Adds two streams species by species.
+ */
+export function addFlows(a: StreamFlows, b: StreamFlows): StreamFlows {
+    const sum: StreamFlows = {};
+    for (const { key } of STATE_VARIABLES) {
+        const value = (a[key] ?? 0) + (b[key] ?? 0);
+        if (value !== 0) sum[key] = value;
+    }
+    return sum;
+}
+
+/**
+ * Polymer moments of a stream: living chains leaving a reactor end up in the product,
+ * so their moments are added to those of the dead polymer.
+ */
+function totalPolymerMoments(flows: StreamFlows): DeadPolymerMoments {
+    const moment = (dead: keyof DeadPolymerMoments, living: keyof StreamFlows) => (flows[dead] ?? 0) + (flows[living] ?? 0);
+    return {
+        deadPolymerMoment0_x0_1: moment('deadPolymerMoment0_x0_1', 'livingPolymerMoment0_y0_1'),
+        deadPolymerMoment0_x0_2: moment('deadPolymerMoment0_x0_2', 'livingPolymerMoment0_y0_2'),
+        deadPolymerMoment1_x1_1: moment('deadPolymerMoment1_x1_1', 'livingPolymerMoment1_y1_1'),
+        deadPolymerMoment1_x1_2: moment('deadPolymerMoment1_x1_2', 'livingPolymerMoment1_y1_2'),
+        deadPolymerMoment2_x2_1: moment('deadPolymerMoment2_x2_1', 'livingPolymerMoment2_y2_1'),
+        deadPolymerMoment2_x2_2: moment('deadPolymerMoment2_x2_2', 'livingPolymerMoment2_y2_2'),
+    };
+}
+
+/**
+ * Moments of the polymer added between two streams, e.g. made in one stage: the outlet
+ * holds the inlet polymer plus the stage's own, so the difference is the stage's polymer.
+ */
+function subtractMoments(a: DeadPolymerMoments, b: DeadPolymerMoments): DeadPolymerMoments {
+    const difference = {} as DeadPolymerMoments;
+    for (const key of Object.keys(a) as (keyof DeadPolymerMoments)[]) {
+        difference[key] = a[key] - b[key];
+    }
+    return difference;
+}
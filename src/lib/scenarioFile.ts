@@ -0,0 +1,272 @@
+/**
+ * @file scenarioFile.ts
+ *
+ * Scenario files for running the model outside the app (see 'src/cli/runScenarios.ts').
+ * A scenario is one set of model inputs; a file holds any number of them as JSON or CSV.
+ *
+ * JSON: either an array of rows or { "defaults": row, "scenarios": [rows] }.
+ * CSV: a header line with the field names, then one row per scenario.
+ *
+ * A row maps `ZieglerModelInputs` field names to numbers; fields left out take their
+ * default value. Field names may carry a unit in brackets or parentheses, e.g.
+ * "temperature [°C]", "hydrogen (mmol/L)" or "volume [m3]"; any unit of the right
+ * dimensions is accepted, e.g. "ethylene [M]" or "hexene [kmol/m3]". Units are
+ * case-sensitive (see 'unitConverter.ts'), except K, C, °C, degC, mol/L, mmol/L,
+ * mol/m3, kmol/m3, L and m3, which are recognized in any case. The optional field
+ * "name" labels the scenario.
+ */
+import { calculateReactionRates, type ZieglerModelInputs, type ZieglerModelOutputs } from './zieglerModel';
+import { defaultKineticParameters, type KineticParameterSet } from './kineticParameters';
+import { calculateReactionRatesChecked, hasErrors, type ValidationIssue } from './modelValidation';
+import { calculateAllProperties } from './physicalProperties';
+import type { PropertyResult } from './propertyCatalog';
+import { DEFAULT_INPUTS } from './operatingRanges';
+import { detectSeparator, splitCsvLine } from './csv';
+import { convert } from './unitConverter';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * One set of model inputs to evaluate.
+ */
+export interface Scenario {
+    name: string;
+    inputs: ZieglerModelInputs;
+}
+
+/**
+ * Outcome of one scenario: 'invalid' when its inputs fail validation, 'failed' when the
+ * model gives non-finite outputs or outputs whose mass balance does not close.
+ */
+export type ScenarioStatus = 'ok' | 'invalid' | 'failed';
+
+/**
+ * Result of one scenario.
+ */
+export interface ScenarioResult {
+    name: string;
+    status: ScenarioStatus;
+    inputs: ZieglerModelInputs;
+    outputs: ZieglerModelOutputs | null;                      // null when the inputs are invalid
+    properties: Record<string, Record<string, PropertyResult>>; // Component -> property -> value at the scenario temperature
+    issues: ValidationIssue[];
+}
+
+/**
+ * Options of a scenario run. All fields are optional.
+ */
+export interface ScenarioOptions {
+    kineticParameters?: KineticParameterSet;
+    components?: string[];              // Components whose properties are reported (default: ETHYLENE, 1-HEXENE, HYDROGEN)
+}
+
+export const DEFAULT_SCENARIO_COMPONENTS = ['ETHYLENE', '1-HEXENE', 'HYDROGEN'];
+
+/** Output fields in the order of the model, for tabular output. */
+export const OUTPUT_FIELDS = Object.keys(calculateReactionRates(DEFAULT_INPUTS)) as (keyof ZieglerModelOutputs)[];
+
+const INPUT_FIELDS = Object.keys(DEFAULT_INPUTS) as (keyof ZieglerModelInputs)[];
+
+/**
+ * Model unit of each kind of input; any unit of the same dimensions is accepted (see 'unitConverter.ts').
+ */
+const MODEL_UNITS: Record<'temperature' | 'concentration' | 'volume', string> = {
+    temperature: 'K',
+    concentration: 'mol/L',
+    volume: 'L',
+};
+
+/** The common units of scenario files, by lower-case spelling, so that e.g. "[k]" or "[MOL/L]" still read. */
+const UNIT_ALIASES: Record<string, string> = {
+    'k': 'K',
+    'c': '°C',
+    '°c': '°C',
+    'degc': '°C',
+    'mol/l': 'mol/L',
+    'mmol/l': 'mmol/L',
+    'mol/m3': 'mol/m3',
+    'kmol/m3': 'kmol/m3',
+    'l': 'L',
+    'm3': 'm3',
+};
+
+
+// ===================================================================================
+// 2. PARSING
+// ===================================================================================
+
+/**
+ * Parses a scenario file.
+ * @param text The file contents.
+ * @param format 'json' or 'csv'.
+ * @throws Error describing the first problem found (file structure, unknown field or unit, non-numeric value).
+ */
+export function parseScenarioFile(text: string, format: 'json' | 'csv'): Scenario[] {
+    return format === 'json' ? parseScenarioJson(text) : parseScenarioCsv(text);
+}
+
+/**
+ * Parses scenarios from JSON.
+ */
+export function parseScenarioJson(text: string): Scenario[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new Error(`Invalid JSON: ${(e as Error).message}`);
+    }
+    const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+    let defaults: Record<string, unknown> = {};
+    let rows: unknown;
+    if (Array.isArray(data)) {
+        rows = data;
+    } else if (isObject(data) && Array.isArray(data.scenarios)) {
+        if (data.defaults !== undefined && !isObject(data.defaults)) {
+            throw new Error('"defaults" must be an object.');
+        }
+        defaults = (data.defaults as Record<string, unknown>) ?? {};
+        rows = data.scenarios;
+    } else {
+        throw new Error('Expected an array of scenarios or an object with a "scenarios" array.');
+    }
+
+    const base = rowToInputs(defaults, DEFAULT_INPUTS, 'defaults');
+    return (rows as unknown[]).map((row, i) => {
+        if (!isObject(row)) throw new Error(`Scenario ${i + 1} is not an object.`);
+        const name = row.name !== undefined ? String(row.name) : `Scenario ${i + 1}`;
+        return { name, inputs: rowToInputs(row, base, name) };
+    });
+}
+
+/**
+ * Parses scenarios from CSV (comma, semicolon or tab separated; fields may be double-quoted).
+ */
+export function parseScenarioCsv(text: string): Scenario[] {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '' && !line.trimStart().startsWith('#'));
+    if (lines.length < 2) {
+        throw new Error('CSV needs a header line and at least one scenario row.');
+    }
+    const separator = detectSeparator(lines[0]);
+    const header = splitCsvLine(lines[0], separator);
+
+    return lines.slice(1).map((line, i) => {
+        const fields = splitCsvLine(line, separator);
+        if (fields.length !== header.length) {
+            throw new Error(`Line ${i + 2}: ${fields.length} fields for ${header.length} columns.`);
+        }
+        const row: Record<string, unknown> = {};
+        header.forEach((key, j) => {
+            const number = Number(fields[j]);
+            // Keep text that is not a number, so that the error message can show it
+            row[key] = key.trim().toLowerCase() === 'name' || Number.isNaN(number) ? fields[j] : fields[j] === '' ? undefined : number;
+        });
+        const name = row.name !== undefined && row.name !== '' ? String(row.name) : `Scenario ${i + 1}`;
+        return { name, inputs: rowToInputs(row, DEFAULT_INPUTS, `${name} (line ${i + 2})`) };
+    });
+}
+
+/**
+ * Converts one row (field name with optional unit -> value) into model inputs.
+ */
+function rowToInputs(row: Record<string, unknown>, base: ZieglerModelInputs, label: string): ZieglerModelInputs {
+    const inputs = { ...base };
+    for (const [key, value] of Object.entries(row)) {
+        const match = /^\s*([A-Za-z0-9_]+)\s*(?:[[(]\s*([^\])]+?)\s*[\])])?\s*$/.exec(key);
+        if (!match) throw new Error(`${label}: cannot read field name "${key}".`);
+        const [, field, unit] = match;
+        if (field.toLowerCase() === 'name' || value === undefined) continue;
+        if (!INPUT_FIELDS.includes(field as keyof ZieglerModelInputs)) {
+            throw new Error(`${label}: unknown field "${field}".`);
+        }
+        if (typeof value !== 'number' || Number.isNaN(value)) {
+            throw new Error(`${label}: ${field} must be a number, got ${JSON.stringify(value)}.`);
+        }
+        inputs[field as keyof ZieglerModelInputs] = convertToModelUnit(field as keyof ZieglerModelInputs, value, unit, label);
+    }
+    return inputs;
+}
+
+function convertToModelUnit(field: keyof ZieglerModelInputs, value: number, unit: string | undefined, label: string): number {
+    if (unit === undefined) return value;
+    const kind = field === 'temperature' ? 'temperature' : field === 'volume' ? 'volume' : field === 'reactorFlag' ? null : 'concentration';
+    if (!kind) {
+        throw new Error(`${label}: unit "${unit}" is not accepted for ${field}.`);
+    }
+    try {
+        return convert(value, UNIT_ALIASES[unit.toLowerCase()] ?? unit, MODEL_UNITS[kind]);
+    } catch (e) {
+        throw new Error(`${label}: unit "${unit}" is not accepted for ${field}. ${(e as Error).message}`);
+    }
+}
+
+
+// ===================================================================================
+// 3. EVALUATION
+// ===================================================================================
+
+/**
+ * Validates and evaluates one scenario, and computes the component properties at its temperature.
+ */
+export function runScenario(scenario: Scenario, options: ScenarioOptions = {}): ScenarioResult {
+    const { outputs, issues } = calculateReactionRatesChecked(scenario.inputs, options.kineticParameters ?? defaultKineticParameters);
+    const properties: Record<string, Record<string, PropertyResult>> = {};
+    if (outputs) {
+        for (const [name, component] of calculateAllProperties(options.components ?? DEFAULT_SCENARIO_COMPONENTS, scenario.inputs.temperature)) {
+            properties[name] = Object.fromEntries(component.calculated_properties);
+        }
+    }
+    return {
+        name: scenario.name,
+        // A mass balance that does not close is only a warning in the app, but fails a scenario
+        status: outputs === null ? 'invalid' : hasErrors(issues) || issues.some(issue => issue.code === 'MASS_BALANCE') ? 'failed' : 'ok',
+        inputs: scenario.inputs,
+        outputs,
+        properties,
+        issues,
+    };
+}
+
+
+// ===================================================================================
+// 4. OUTPUT
+// ===================================================================================
+
+/**
+ * Writes results as CSV: name, status, all inputs, all outputs, component properties and messages.
+ * Every property has a value column (its unit in the header) and a status column that
+ * tells whether the value is extrapolated.
+ */
+export function resultsToCsv(results: ScenarioResult[]): string {
+    const propertyColumns = new Map<string, { component: string; property: string; unit: string }>();
+    for (const r of results) {
+        for (const [component, values] of Object.entries(r.properties)) {
+            for (const [property, { unit }] of Object.entries(values)) {
+                propertyColumns.set(`${component}: ${property}`, { component, property, unit });
+            }
+        }
+    }
+    const propertyHeader = [...propertyColumns.entries()].flatMap(([column, { unit }]) => [`${column} (${unit})`, `${column} status`]);
+    const header = ['name', 'status', ...INPUT_FIELDS, ...OUTPUT_FIELDS, ...propertyHeader, 'messages'];
+    const quote = (v: string) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+    const rows = results.map(r => [
+        quote(r.name),
+        r.status,
+        ...INPUT_FIELDS.map(f => String(r.inputs[f])),
+        ...OUTPUT_FIELDS.map(f => (r.outputs ? String(r.outputs[f]) : '')),
+        ...[...propertyColumns.values()].flatMap(({ component, property }) => {
+            const result = r.properties[component]?.[property];
+            return result ? [String(result.value), result.status] : ['', ''];
+        }),
+        quote(r.issues.map(issue => `${issue.severity}: ${issue.message}`).join('; ')),
+    ].join(','));
+    return [header.map(quote).join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Writes results as formatted JSON.
+ */
+export function resultsToJson(results: ScenarioResult[]): string {
+    return JSON.stringify(results, null, 2) + '\n';
+}
@@ -0,0 +1,170 @@
+/**
+ * @file sensitivityAnalysis.ts
+ *
+ * Local sensitivity analysis of the kinetic model. For every selected parameter p and
+ * output y it computes the normalized sensitivity coefficient
+ *
+ *     S = d ln y / d ln p
+ *
+ * by central finite differences. A coefficient of 1 means that a 1 % change of p
+ * changes y by 1 %. For the Arrhenius coefficients, a = ln(k0) and b = ln(Ea/R), so
+ * the derivative with respect to a or b is already the normalized sensitivity to the
+ * pre-exponential factor or to the activation energy.
+ */
+import { calculateReactionRates, type ZieglerModelInputs } from './zieglerModel';
+import {
+    RATE_CONSTANT_NAMES,
+    defaultKineticParameters,
+    type KineticParameterSet,
+    type RateConstantName,
+} from './kineticParameters';
+import { predictQuantity, type MeasuredQuantity } from './parameterEstimation';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/** Operating inputs whose influence can be analysed. */
+export type SensitivityInput = 'temperature' | 'hydrogen' | 'ethylene' | 'hexene' | 'cocatalyst';
+
+/**
+ * A parameter of the sensitivity analysis: either an Arrhenius coefficient or an operating input.
+ */
+export type SensitivityParameter =
+    | { kind: 'kinetic'; name: RateConstantName; coefficient: 'a' | 'b' }
+    | { kind: 'input'; name: SensitivityInput };
+
+/**
+ * Normalized sensitivities of all selected outputs to one parameter.
+ */
+export interface SensitivityEntry {
+    parameter: SensitivityParameter;
+    label: string;                                          // E.g. 'kp11_2 (pre-exponential)' or 'hydrogen'
+    coefficients: Partial<Record<MeasuredQuantity, number>>; // d ln y / d ln p per output
+}
+
+/**
+ * Result of a sensitivity analysis at one operating point.
+ */
+export interface SensitivityResult {
+    outputs: MeasuredQuantity[];
+    baseValues: Partial<Record<MeasuredQuantity, number>>;
+    entries: SensitivityEntry[];
+}
+
+/**
+ * Options of the sensitivity analysis. All fields are optional.
+ */
+export interface SensitivityOptions {
+    outputs?: MeasuredQuantity[];           // Default: production rate, hydrogen consumption, Mw
+    parameters?: SensitivityParameter[];    // Default: all Arrhenius coefficients and all inputs
+    kineticParameters?: KineticParameterSet;
+    relativeStep?: number;                  // Perturbation of ln p (default 1e-4)
+}
+
+export const SENSITIVITY_INPUTS: SensitivityInput[] = ['temperature', 'hydrogen', 'ethylene', 'hexene', 'cocatalyst'];
+
+export const DEFAULT_SENSITIVITY_OUTPUTS: MeasuredQuantity[] = [
+    'polymerProductionRate',
+    'hydrogenConsumption',
+    'weightAverageMolecularWeight',
+];
+
+
+// ===================================================================================
+// 2. ANALYSIS
+// ===================================================================================
+
+/**
+ * Lists every Arrhenius coefficient and every operating input as sensitivity parameters.
+ */
+export function allSensitivityParameters(): SensitivityParameter[] {
+    const kinetic: SensitivityParameter[] = RATE_CONSTANT_NAMES.flatMap(name => [
+        { kind: 'kinetic' as const, name, coefficient: 'a' as const },
+        { kind: 'kinetic' as const, name, coefficient: 'b' as const },
+    ]);
+    const operating: SensitivityParameter[] = SENSITIVITY_INPUTS.map(name => ({ kind: 'input' as const, name }));
+    return [...kinetic, ...operating];
+}
+
+/**
+ * Returns a readable label for a sensitivity parameter.
+ */
+export function sensitivityParameterLabel(parameter: SensitivityParameter): string {
+    if (parameter.kind === 'input') return parameter.name;
+    return `${parameter.name} (${parameter.coefficient === 'a' ? 'pre-exponential' : 'activation energy'})`;
+}
+
+/**
+ * Computes normalized sensitivity coefficients d ln y / d ln p at one operating point.
+ * @param inputs The operating point.
+ * @param options Selected outputs and parameters, kinetic parameter set and step size.
+ * @returns The base output values and one entry per parameter.
+ */
+export function calculateSensitivities(inputs: ZieglerModelInputs, options: SensitivityOptions = {}): SensitivityResult {
+    const outputs = options.outputs ?? DEFAULT_SENSITIVITY_OUTPUTS;
+    const parameters = options.parameters ?? allSensitivityParameters();
+    const baseSet = options.kineticParameters ?? defaultKineticParameters;
+    const h = options.relativeStep ?? 1e-4;
+
+    const evaluate = (modelInputs: ZieglerModelInputs, set: KineticParameterSet) => {
+        const modelOutputs = calculateReactionRates(modelInputs, set);
+        return outputs.map(quantity => predictQuantity(quantity, modelOutputs));
+    };
+
+    const base = evaluate(inputs, baseSet);
+    const baseValues: Partial<Record<MeasuredQuantity, number>> = {};
+    outputs.forEach((quantity, i) => {
+        baseValues[quantity] = base[i];
+    });
+
+    const entries: SensitivityEntry[] = parameters.map(parameter => {
+        let plus: number[];
+        let minus: number[];
+        if (parameter.kind === 'kinetic') {
+            // a and b are already logarithmic, so perturb them additively
+            const shifted = (delta: number): KineticParameterSet => {
+                const current = baseSet.arrhenius[parameter.name];
+                return {
+                    ...baseSet,
+                    arrhenius: {
+                        ...baseSet.arrhenius,
+                        [parameter.name]: { ...current, [parameter.coefficient]: current[parameter.coefficient] + delta },
+                    },
+                };
+            };
+            plus = evaluate(inputs, shifted(h));
+            minus = evaluate(inputs, shifted(-h));
+        } else {
+            // Multiplicative perturbation: ln p changes by +/- h
+            const value = inputs[parameter.name];
+            plus = evaluate({ ...inputs, [parameter.name]: value * Math.exp(h) }, baseSet);
+            minus = evaluate({ ...inputs, [parameter.name]: value * Math.exp(-h) }, baseSet);
+        }
+
+        const coefficients: Partial<Record<MeasuredQuantity, number>> = {};
+        outputs.forEach((quantity, i) => {
+            // d ln y / d ln p = (dy / d ln p) / y, which also works for outputs of either sign
+            coefficients[quantity] = (plus[i] - minus[i]) / (2 * h * base[i]);
+        });
+        return { parameter, label: sensitivityParameterLabel(parameter), coefficients };
+    });
+
+    return { outputs, baseValues, entries };
+}
+
+/**
+ * Sorts the entries by the magnitude of their sensitivity for one output (largest first).
+ * Entries without a finite coefficient are placed last.
+ * @param result The sensitivity analysis result.
+ * @param output The output to rank by.
+ * @param limit Optional maximum number of entries to return.
+ */
+export function rankSensitivities(result: SensitivityResult, output: MeasuredQuantity, limit?: number): SensitivityEntry[] {
+    const magnitude = (entry: SensitivityEntry) => {
+        const value = entry.coefficients[output];
+        return value !== undefined && Number.isFinite(value) ? Math.abs(value) : -1;
+    };
+    const ranked = [...result.entries].sort((a, b) => magnitude(b) - magnitude(a));
+    return limit !== undefined ? ranked.slice(0, limit) : ranked;
+}
@@ -0,0 +1,216 @@
+/**
+ * @file thermoFunctions.ts
+ *
+ * Ideal-gas enthalpy, entropy and Gibbs energy of library components, from analytic
+ * integrals of their 'Vapor heat capacity' correlations:
+ * - Type1 (polynomial):  ∫Cp dT = Σ a_k T^(k+1) / (k+1),  ∫Cp/T dT = a_0 ln T + Σ a_k T^k / k;
+ * - Type4 (DIPPR 107), with u = C/T and v = E/T:
+ *       ∫Cp dT   = A T + B C coth(u) - D E tanh(v),
+ *       ∫Cp/T dT = A ln T + B (u coth(u) - ln sinh(u)) - D (v tanh(v) - ln cosh(v)).
+ *
+ * A correlation with several temperature intervals is integrated piece by piece, each
+ * interval up to the temperature where the next one takes over (as in
+ * 'physicalProperties.ts'), so H and S are continuous even where Cp jumps. Outside the
+ * intervals Cp is held at its value at the nearest limit.
+ *
+ * The reference state is the ideal gas at 298.15 K and standard pressure:
+ *     H(T) = H_f + ∫Cp dT,   S(T) = ∫Cp/T dT,   G(T) = H(T) - T S(T),
+ * integrals from 298.15 K. The library has no absolute entropies, so S and G serve for
+ * changes of temperature (energy balances), not for reaction equilibria; the enthalpy of
+ * reaction Σ ν_i H_i(T) is exact within the data.
+ */
+import { componentLibrary } from './componentData';
+import type { PropertyCoefficients } from './physicalProperties';
+import { PhysicalProperty } from './propertyCatalog';
+import { calcFunction } from './propertyCorrelations';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * Ideal-gas functions of one component at one temperature.
+ */
+export interface IdealGasFunctions {
+    component: string;
+    temperature: number;                // K
+    heatCapacity: number;               // J/mol/K
+    enthalpy: number;                   // Incl. enthalpy of formation (J/mol)
+    entropy: number;                    // Relative to 298.15 K (J/mol/K)
+    gibbsEnergy: number;                // H - T S (J/mol)
+    extrapolated: boolean;              // Part of the range 298.15 K to T lies outside the Cp intervals
+}
+
+/**
+ * Integrals of Cp between two temperatures.
+ */
+export interface HeatCapacityIntegrals {
+    enthalpy: number;                   // ∫Cp dT (J/mol)
+    entropy: number;                    // ∫Cp/T dT (J/mol/K)
+    extrapolated: boolean;
+}
+
+/** Part of the temperature axis with one correlation interval, or a constant Cp beyond the intervals. */
+interface CpSegment {
+    T_low: number;
+    T_high: number;
+    index: number;                      // Interval of the correlation; -1 for a constant Cp
+    constantCp: number;                 // J/kmol/K, for index -1
+}
+
+export const REFERENCE_TEMPERATURE = 298.15; // K
+
+
+// ===================================================================================
+// 2. ANALYTIC INTEGRALS
+// ===================================================================================
+
+// ln(sinh u) and ln(cosh u) without overflow for large u (u > 0)
+const logSinh = (u: number): number => u + Math.log1p(-Math.exp(-2 * u)) - Math.LN2;
+const logCosh = (u: number): number => Math.abs(u) + Math.log1p(Math.exp(-2 * Math.abs(u))) - Math.LN2;
+
+/**
+ * Antiderivatives of Cp and Cp/T for one interval of a Type1 or Type4 correlation,
+ * in the units of the correlation (J/kmol/K).
+ */
+function antiderivatives(coeff: PropertyCoefficients, index: number, T: number): { enthalpy: number; entropy: number } {
+    const [A, B, C, D, E] = [coeff.coeff_0, coeff.coeff_1, coeff.coeff_2, coeff.coeff_3, coeff.coeff_4].map(c => c[index]);
+    switch (coeff.correlation_type) {
+        case 'Type1':
+            return {
+                enthalpy: A * T + (B * T ** 2) / 2 + (C * T ** 3) / 3 + (D * T ** 4) / 4 + (E * T ** 5) / 5,
+                entropy: A * Math.log(T) + B * T + (C * T ** 2) / 2 + (D * T ** 3) / 3 + (E * T ** 4) / 4,
+            };
+        case 'Type4': {
+            const u = C / T;
+            const v = E / T;
+            return {
+                enthalpy: A * T + (B * C) / Math.tanh(u) - D * E * Math.tanh(v),
+                entropy: A * Math.log(T) + B * (u / Math.tanh(u) - logSinh(u)) - D * (v * Math.tanh(v) - logCosh(v)),
+            };
+        }
+        default:
+            throw new Error(`No analytic integral for a ${coeff.correlation_type} heat capacity.`);
+    }
+}
+
+/** The heat capacity correlation of a component. */
+function heatCapacityCorrelation(component: string): PropertyCoefficients {
+    const coeff = componentLibrary.get(component)?.properties.get(PhysicalProperty.VaporHeatCapacity);
+    if (!coeff) {
+        throw new Error(`No heat capacity correlation for component "${component}".`);
+    }
+    return coeff;
+}
+
+/** Cp from one interval of the correlation, in its units (J/kmol/K). */
+function correlationHeatCapacity(coeff: PropertyCoefficients, component: string, index: number, T: number): number {
+    const constants = componentLibrary.get(component)!.constants;
+    return calcFunction(coeff.correlation_type, T, T / constants.critical_temperature, coeff, index, constants.enthalpy_formation);
+}
+
+/**
+ * Splits the temperature axis (0, ∞) into the pieces where each interval of the
+ * correlation is used, with a constant Cp below the first and above the last one.
+ */
+function cpSegments(coeff: PropertyCoefficients, component: string): CpSegment[] {
+    if (!coeff.has_intervals || !coeff.T_min || !coeff.T_max) {
+        return [{ T_low: 0, T_high: Infinity, index: 0, constantCp: NaN }];
+    }
+    const cp = (T: number, index: number) => correlationHeatCapacity(coeff, component, index, T);
+    const count = coeff.interval_count ?? coeff.T_min.length;
+    const segments: CpSegment[] = [{ T_low: 0, T_high: coeff.T_min[0], index: -1, constantCp: cp(coeff.T_min[0], 0) }];
+    let T_low = coeff.T_min[0];
+    for (let i = 0; i < count; i++) {
+        if (coeff.T_max[i] <= T_low) continue; // Covered by the interval before it
+        segments.push({ T_low, T_high: coeff.T_max[i], index: i, constantCp: NaN });
+        T_low = coeff.T_max[i];
+    }
+    segments.push({ T_low, T_high: Infinity, index: -1, constantCp: cp(T_low, count - 1) });
+    return segments;
+}
+
+/**
+ * Integrals of the ideal-gas heat capacity of a component from T1 to T2.
+ * @param component The component name in the library.
+ * @param T1 The start temperature in Kelvin.
+ * @param T2 The end temperature in Kelvin.
+ * @returns ∫Cp dT in J/mol and ∫Cp/T dT in J/mol/K (negative when T2 < T1).
+ * @throws Error for unknown components, components without a heat capacity
+ *         correlation, or non-positive temperatures.
+ */
+export function integrateHeatCapacity(component: string, T1: number, T2: number): HeatCapacityIntegrals {
+    const coeff = heatCapacityCorrelation(component);
+    if (!(T1 > 0) || !(T2 > 0)) {
+        throw new Error(`Temperatures must be positive, got ${T1} K and ${T2} K.`);
+    }
+    const [low, high, sign] = T1 <= T2 ? [T1, T2, 1] : [T2, T1, -1];
+    let enthalpy = 0;
+    let entropy = 0;
+    let extrapolated = false;
+    for (const segment of cpSegments(coeff, component)) {
+        const a = Math.max(low, segment.T_low);
+        const b = Math.min(high, segment.T_high);
+        if (a >= b) continue;
+        if (segment.index === -1) {
+            enthalpy += segment.constantCp * (b - a);
+            entropy += segment.constantCp * Math.log(b / a);
+            extrapolated = true;
+        } else {
+            const [start, end] = [antiderivatives(coeff, segment.index, a), antiderivatives(coeff, segment.index, b)];
+            enthalpy += end.enthalpy - start.enthalpy;
+            entropy += end.entropy - start.entropy;
+        }
+    }
+    // J/kmol -> J/mol
+    return { enthalpy: (sign * enthalpy) / 1000, entropy: (sign * entropy) / 1000, extrapolated };
+}
+
+
+// ===================================================================================
+// 3. THERMODYNAMIC FUNCTIONS
+// ===================================================================================
+
+/**
+ * Ideal-gas heat capacity, enthalpy, entropy and Gibbs energy of a component.
+ * @param component The component name in the library.
+ * @param T The temperature in Kelvin.
+ * @returns The functions relative to the ideal gas at 298.15 K (enthalpy incl. formation).
+ * @throws Error for unknown components or components without a heat capacity correlation.
+ */
+export function idealGasFunctions(component: string, T: number): IdealGasFunctions {
+    const { enthalpy, entropy, extrapolated } = integrateHeatCapacity(component, REFERENCE_TEMPERATURE, T);
+    // Cp as the integrals see it: constant beyond the intervals
+    const coeff = heatCapacityCorrelation(component);
+    const segment = cpSegments(coeff, component).find(s => T >= s.T_low && T <= s.T_high)!;
+    const H = componentLibrary.get(component)!.constants.enthalpy_formation + enthalpy;
+    return {
+        component,
+        temperature: T,
+        heatCapacity: (segment.index === -1 ? segment.constantCp : correlationHeatCapacity(coeff, component, segment.index, T)) / 1000, // J/kmol/K -> J/mol/K
+        enthalpy: H,
+        entropy,
+        gibbsEnergy: H - T * entropy,
+        extrapolated,
+    };
+}
+
+/**
+ * Enthalpy change of one mole of a component from T1 to T2 (ideal gas).
+ * @returns The enthalpy difference in J/mol.
+ */
+export function enthalpyChange(component: string, T1: number, T2: number): number {
+    return integrateHeatCapacity(component, T1, T2).enthalpy;
+}
+
+/**
+ * Enthalpy of reaction at temperature T from the ideal-gas enthalpies of the species.
+ * @param stoichiometry Stoichiometric coefficients by component library name
+ *                      (negative for reactants), e.g. { ETHYLENE: -1, HYDROGEN: -1, ETHANE: 1 }.
+ * @param T The temperature in Kelvin.
+ * @returns The enthalpy of reaction in J per mol of reaction (negative = exothermic).
+ */
+export function reactionEnthalpy(stoichiometry: Record<string, number>, T: number): number {
+    return Object.entries(stoichiometry)
+        .reduce((sum, [component, nu]) => sum + nu * idealGasFunctions(component, T).enthalpy, 0);
+}
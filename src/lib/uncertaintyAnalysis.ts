@@ -0,0 +1,297 @@
+/**
+ * @file uncertaintyAnalysis.ts
+ *
+ * Monte Carlo propagation of the uncertainty of the kinetic parameters and operating
+ * inputs to the model outputs. Every sample draws the uncertain quantities from their
+ * distributions, evaluates the model and records the selected outputs; the result holds
+ * the mean, standard deviation, percentiles and a histogram of every output.
+ *
+ * Arrhenius coefficients can be sampled independently or jointly from a covariance
+ * matrix, e.g. the one of a regression (see 'parameterEstimation.ts'). The random
+ * number generator is seeded, so the same seed always reproduces the same samples.
+ */
+import { calculateReactionRates, type ZieglerModelInputs, type ZieglerModelOutputs } from './zieglerModel';
+import { defaultKineticParameters, type KineticParameterSet, type RateConstantName } from './kineticParameters';
+import { predictQuantity, type EstimationResult, type MeasuredQuantity } from './parameterEstimation';
+import { DEFAULT_SENSITIVITY_OUTPUTS, sensitivityParameterLabel, type SensitivityParameter } from './sensitivityAnalysis';
+import { choleskyDecompose, type Matrix } from './linearAlgebra';
+import { histogram, mean, percentile, standardDeviation, type Histogram } from './statistics';
+
+// ===================================================================================
+// 1. INTERFACES
+// ===================================================================================
+
+/**
+ * Distribution of an uncertain quantity. Omitted centre values default to the nominal value.
+ */
+export type UncertaintyDistribution =
+    | { type: 'normal'; mean?: number; standardDeviation: number }
+    | { type: 'lognormal'; median?: number; logStandardDeviation: number } // sigma of ln(value)
+    | { type: 'uniform'; lower: number; upper: number }
+    | { type: 'triangular'; lower: number; mode?: number; upper: number };
+
+/**
+ * An Arrhenius coefficient or operating input drawn independently from a distribution.
+ */
+export type UncertainParameter = SensitivityParameter & { distribution: UncertaintyDistribution };
+
+/**
+ * Arrhenius coefficients drawn jointly from a multivariate normal distribution.
+ */
+export interface CorrelatedKineticParameters {
+    parameters: { name: RateConstantName; coefficient: 'a' | 'b' }[];
+    mean?: number[];                    // Default: the values of the nominal parameter set
+    covariance: Matrix;
+}
+
+/**
+ * What is uncertain and how.
+ */
+export interface UncertaintySpecification {
+    independent?: UncertainParameter[];
+    correlated?: CorrelatedKineticParameters;
+}
+
+/**
+ * Options of the uncertainty analysis. All fields are optional.
+ */
+export interface UncertaintyOptions {
+    samples?: number;                   // Default 1000
+    seed?: number;                      // Default 1
+    outputs?: MeasuredQuantity[];       // Default: production rate, hydrogen consumption, Mw
+    kineticParameters?: KineticParameterSet;
+    percentiles?: number[];             // Default [5, 25, 50, 75, 95]
+    histogramBins?: number;             // Default 20
+    evaluate?: (inputs: ZieglerModelInputs, parameters: KineticParameterSet) => ZieglerModelOutputs; // Default: calculateReactionRates
+}
+
+/**
+ * Statistics of one output over all successful samples.
+ */
+export interface OutputStatistics {
+    nominal: number;                    // Output at the nominal parameters and inputs
+    mean: number;
+    standardDeviation: number;
+    minimum: number;
+    maximum: number;
+    percentiles: { percentile: number; value: number }[];
+    histogram: Histogram;
+}
+
+/**
+ * Result of a Monte Carlo uncertainty analysis.
+ */
+export interface UncertaintyResult {
+    seed: number;
+    samples: number;                    // Samples drawn
+    failedSamples: number;              // Samples with a non-finite output or a model error
+    outputs: MeasuredQuantity[];
+    values: Partial<Record<MeasuredQuantity, number[]>>;        // Output of every successful sample
+    statistics: Partial<Record<MeasuredQuantity, OutputStatistics>>;
+}
+
+
+// ===================================================================================
+// 2. RANDOM NUMBERS
+// ===================================================================================
+
+/**
+ * Seeded uniform random number generator on [0, 1) (mulberry32).
+ * @param seed Any integer; equal seeds give equal sequences.
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Standard normal random number (Box-Muller transform).
+ */
+export function standardNormal(random: () => number): number {
+    const u = 1 - random(); // (0, 1], so the logarithm is finite
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Draws one value from a distribution.
+ * @param distribution The distribution.
+ * @param nominal The nominal value, used where the distribution leaves its centre open.
+ * @param random The uniform random number generator.
+ */
+export function sampleDistribution(distribution: UncertaintyDistribution, nominal: number, random: () => number): number {
+    switch (distribution.type) {
+        case 'normal':
+            return (distribution.mean ?? nominal) + distribution.standardDeviation * standardNormal(random);
+        case 'lognormal':
+            return (distribution.median ?? nominal) * Math.exp(distribution.logStandardDeviation * standardNormal(random));
+        case 'uniform':
+            return distribution.lower + (distribution.upper - distribution.lower) * random();
+        case 'triangular': {
+            const { lower, upper } = distribution;
+            const mode = distribution.mode ?? nominal;
+            const u = random();
+            const split = (mode - lower) / (upper - lower);
+            return u < split
+                ? lower + Math.sqrt(u * (upper - lower) * (mode - lower))
+                : upper - Math.sqrt((1 - u) * (upper - lower) * (upper - mode));
+        }
+    }
+}
+
+
+// ===================================================================================
+// 3. ANALYSIS
+// ===================================================================================
+
+/**
+ * Propagates the specified uncertainties to the model outputs by Monte Carlo sampling.
+ * @param inputs The nominal operating point.
+ * @param specification The uncertain parameters and inputs with their distributions.
+ * @param options Sample count, seed, outputs, parameter set and model evaluation.
+ * @returns The output samples and their statistics.
+ * @throws Error if a distribution or the covariance matrix is invalid.
+ */
+export function runUncertaintyAnalysis(
+    inputs: ZieglerModelInputs,
+    specification: UncertaintySpecification,
+    options: UncertaintyOptions = {},
+): UncertaintyResult {
+    const samples = options.samples ?? 1000;
+    const seed = options.seed ?? 1;
+    const outputs = options.outputs ?? DEFAULT_SENSITIVITY_OUTPUTS;
+    const baseSet = options.kineticParameters ?? defaultKineticParameters;
+    const evaluate = options.evaluate ?? calculateReactionRates;
+    const independent = specification.independent ?? [];
+    const correlated = specification.correlated;
+
+    for (const parameter of independent) {
+        validateDistribution(parameter.distribution, sensitivityParameterLabel(parameter));
+    }
+    let factor: Matrix = [];
+    let correlatedMean: number[] = [];
+    if (correlated) {
+        const n = correlated.parameters.length;
+        if (correlated.covariance.length !== n || correlated.covariance.some(row => row.length !== n)) {
+            throw new Error(`Covariance matrix must be ${n} x ${n} for ${n} correlated parameters.`);
+        }
+        factor = choleskyDecompose(correlated.covariance);
+        correlatedMean = correlated.mean ?? correlated.parameters.map(p => baseSet.arrhenius[p.name][p.coefficient]);
+    }
+
+    const predict = (modelInputs: ZieglerModelInputs, set: KineticParameterSet) => {
+        const modelOutputs = evaluate(modelInputs, set);
+        return outputs.map(quantity => predictQuantity(quantity, modelOutputs));
+    };
+
+    const random = createRandom(seed);
+    const values = outputs.map((): number[] => []);
+    let failedSamples = 0;
+
+    for (let s = 0; s < samples; s++) {
+        const arrhenius = { ...baseSet.arrhenius };
+        const sampleInputs = { ...inputs };
+        const setCoefficient = (name: RateConstantName, coefficient: 'a' | 'b', value: number) => {
+            arrhenius[name] = { ...arrhenius[name], [coefficient]: value };
+        };
+
+        if (correlated) {
+            // x = mean + L z with z standard normal
+            const z = correlated.parameters.map(() => standardNormal(random));
+            correlated.parameters.forEach((p, i) => {
+                let value = correlatedMean[i];
+                for (let k = 0; k <= i; k++) value += factor[i][k] * z[k];
+                setCoefficient(p.name, p.coefficient, value);
+            });
+        }
+        for (const parameter of independent) {
+            if (parameter.kind === 'kinetic') {
+                const nominal = arrhenius[parameter.name][parameter.coefficient];
+                setCoefficient(parameter.name, parameter.coefficient, sampleDistribution(parameter.distribution, nominal, random));
+            } else {
+                sampleInputs[parameter.name] = sampleDistribution(parameter.distribution, inputs[parameter.name], random);
+            }
+        }
+
+        let result: number[];
+        try {
+            result = predict(sampleInputs, { ...baseSet, arrhenius });
+        } catch {
+            failedSamples++;
+            continue;
+        }
+        if (!result.every(Number.isFinite)) {
+            failedSamples++;
+            continue;
+        }
+        result.forEach((value, i) => values[i].push(value));
+    }
+
+    const nominal = predict(inputs, baseSet);
+    const percentileLevels = options.percentiles ?? [5, 25, 50, 75, 95];
+    const result: UncertaintyResult = { seed, samples, failedSamples, outputs, values: {}, statistics: {} };
+    outputs.forEach((quantity, i) => {
+        const sample = values[i];
+        const sorted = [...sample].sort((a, b) => a - b);
+        result.values[quantity] = sample;
+        result.statistics[quantity] = {
+            nominal: nominal[i],
+            mean: mean(sample),
+            standardDeviation: standardDeviation(sample),
+            minimum: sorted.length > 0 ? sorted[0] : NaN,
+            maximum: sorted.length > 0 ? sorted[sorted.length - 1] : NaN,
+            percentiles: percentileLevels.map(p => ({ percentile: p, value: percentile(sorted, p) })),
+            histogram: histogram(sample, options.histogramBins ?? 20),
+        };
+    });
+    return result;
+}
+
+/**
+ * Builds the joint distribution of the fitted coefficients of a regression, so that
+ * their uncertainty and correlation can be propagated.
+ * @throws Error if a fitted parameter has no standard error.
+ */
+export function correlatedParametersFromEstimation(estimation: EstimationResult): CorrelatedKineticParameters {
+    const fitted = estimation.parameters;
+    const unidentified = fitted.find(p => !Number.isFinite(p.standardError));
+    if (unidentified) {
+        throw new Error(`Parameter ${unidentified.name} (${unidentified.coefficient}) has no standard error; it cannot be sampled.`);
+    }
+    return {
+        parameters: fitted.map(p => ({ name: p.name, coefficient: p.coefficient })),
+        mean: fitted.map(p => p.value),
+        covariance: fitted.map((p, i) => fitted.map((q, j) => estimation.correlation[i][j] * p.standardError * q.standardError)),
+    };
+}
+
+function validateDistribution(distribution: UncertaintyDistribution, label: string) {
+    const fail = (reason: string) => {
+        throw new Error(`Invalid distribution for ${label}: ${reason}`);
+    };
+    switch (distribution.type) {
+        case 'normal':
+            if (!(distribution.standardDeviation >= 0)) fail('standard deviation must be zero or positive.');
+            break;
+        case 'lognormal':
+            if (!(distribution.logStandardDeviation >= 0)) fail('log standard deviation must be zero or positive.');
+            if (distribution.median !== undefined && !(distribution.median > 0)) fail('median must be positive.');
+            break;
+        case 'uniform':
+            if (!(distribution.upper > distribution.lower)) fail('upper bound must exceed lower bound.');
+            break;
+        case 'triangular':
+            if (!(distribution.upper > distribution.lower)) fail('upper bound must exceed lower bound.');
+            if (distribution.mode !== undefined && !(distribution.mode >= distribution.lower && distribution.mode <= distribution.upper)) {
+                fail('mode must lie between the bounds.');
+            }
+            break;
+        default:
+            fail(`unknown type "${(distribution as { type: string }).type}".`);
+    }
+}
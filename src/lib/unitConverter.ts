@@ -2,14 +2,23 @@
  * @file unitConverter.ts
  *
  * This module provides functions for converting values between different physical units.
- * It is a TypeScript conversion of the original 'Conversion' Visual Basic module.
+ * It is a TypeScript conversion of the original 'Conversion' Visual Basic module, extended
+ * to a dimensional unit system:
+ * - every unit is a factor to SI and a vector of exponents of the base dimensions
+ *   (mass, length, time, temperature, amount of substance);
+ * - compound units are parsed from strings such as 'kmol/m3', 'kg/h', 'kJ/kg/K', 'J/(mol·K)',
+ *   'Pa.s', 'm^3' or '1/h', with SI prefixes on the units that take them (kPa, mmol, cP, mM);
+ * - a conversion is only allowed between units of the same dimensions.
+ *
+ * Units with an offset (°C, °F, barg, psig) are converted as such when they stand alone;
+ * inside a compound unit (e.g. 'kJ/kg/°C') they count as differences.
  */
 
 // ===================================================================================
 // 1. TYPE DEFINITIONS FOR UNITS
 // ===================================================================================
 
-// Defines the categories of units we can convert
+// Defines the categories of units of the original module
 export enum UnitType {
     Pressure = 'Pressure',
     Temperature = 'Temperature',
@@ -17,111 +26,270 @@ export enum UnitType {
     Length = 'Length',
     Volume = 'Volume',
     Viscosity = 'Viscosity',
-    // Add other types as needed
 }
 
-// Defines all possible units for each category
+// Defines the named units of each category (any unit string of the right dimensions is also accepted)
 export type PressureUnit = 'bar' | 'atm' | 'psi';
 export type TemperatureUnit = 'C' | 'K' | 'F';
 export type MassUnit = 'kg' | 'g' | 'lbm';
-// ... define other unit types
+export type LengthUnit = 'm' | 'cm' | 'mm' | 'in' | 'ft';
+export type VolumeUnit = 'm3' | 'L' | 'mL' | 'gal' | 'ft3';
+export type ViscosityUnit = 'Pa.s' | 'mPa.s' | 'cP' | 'P';
+
+export type Unit = PressureUnit | TemperatureUnit | MassUnit | LengthUnit | VolumeUnit | ViscosityUnit;
+
+/** The SI base dimensions used by the model. */
+export type Dimension = 'mass' | 'length' | 'time' | 'temperature' | 'amount';
+
+/** Exponents of the base dimensions, e.g. { mass: 1, length: -1, time: -2 } for a pressure. */
+export type Dimensions = Record<Dimension, number>;
+
+/**
+ * A parsed unit: value in SI = value * factor + offset.
+ */
+export interface ParsedUnit {
+    expression: string;
+    factor: number;
+    offset: number;                     // Non-zero only for a standalone °C, °F, barg or psig
+    dimensions: Dimensions;
+}
 
-export type Unit = PressureUnit | TemperatureUnit | MassUnit; // Add other unit types here
+interface UnitDefinition {
+    factor: number;
+    dimensions: Partial<Dimensions>;
+    offset?: number;
+    prefixable?: boolean;
+}
+
+const DIMENSIONS: Dimension[] = ['mass', 'length', 'time', 'temperature', 'amount'];
+
+const ATMOSPHERE = 101325;              // Pa
 
 // ===================================================================================
-// 2. CONVERSION FACTORS
+// 2. UNIT DEFINITIONS
 // ===================================================================================
-// We store conversion factors relative to a base unit for each category (e.g., SI unit).
+// Factors to the SI base units kg, m, s, K and mol.
+
+const PRESSURE = { mass: 1, length: -1, time: -2 };
+const ENERGY = { mass: 1, length: 2, time: -2 };
 
-// Base unit for pressure is 'bar'
-const pressureFactors = new Map<PressureUnit, number>([
-    ['bar', 1],
-    ['atm', 1 / 1.01325],
-    ['psi', 14.50377],
-]);
+const UNITS: Record<string, UnitDefinition> = {
+    // Mass
+    'g': { factor: 1e-3, dimensions: { mass: 1 }, prefixable: true },
+    't': { factor: 1000, dimensions: { mass: 1 } },
+    'lb': { factor: 0.45359237, dimensions: { mass: 1 } },
+    'lbm': { factor: 0.45359237, dimensions: { mass: 1 } },
+    // Length and volume
+    'm': { factor: 1, dimensions: { length: 1 }, prefixable: true },
+    'in': { factor: 0.0254, dimensions: { length: 1 } },
+    'ft': { factor: 0.3048, dimensions: { length: 1 } },
+    'L': { factor: 1e-3, dimensions: { length: 3 }, prefixable: true },
+    'l': { factor: 1e-3, dimensions: { length: 3 }, prefixable: true },
+    'gal': { factor: 3.785411784e-3, dimensions: { length: 3 } },
+    // Time
+    's': { factor: 1, dimensions: { time: 1 }, prefixable: true },
+    'min': { factor: 60, dimensions: { time: 1 } },
+    'h': { factor: 3600, dimensions: { time: 1 } },
+    'd': { factor: 86400, dimensions: { time: 1 } },
+    // Temperature (offsets for standalone use)
+    'K': { factor: 1, dimensions: { temperature: 1 }, prefixable: true },
+    'C': { factor: 1, dimensions: { temperature: 1 }, offset: 273.15 },
+    '°C': { factor: 1, dimensions: { temperature: 1 }, offset: 273.15 },
+    'degC': { factor: 1, dimensions: { temperature: 1 }, offset: 273.15 },
+    'F': { factor: 5 / 9, dimensions: { temperature: 1 }, offset: 273.15 - (32 * 5) / 9 },
+    '°F': { factor: 5 / 9, dimensions: { temperature: 1 }, offset: 273.15 - (32 * 5) / 9 },
+    'degF': { factor: 5 / 9, dimensions: { temperature: 1 }, offset: 273.15 - (32 * 5) / 9 },
+    'R': { factor: 5 / 9, dimensions: { temperature: 1 } },
+    // Amount of substance and concentration (M = molar = mol/L; 'M' alone is never the mega prefix)
+    'mol': { factor: 1, dimensions: { amount: 1 }, prefixable: true },
+    'M': { factor: 1000, dimensions: { amount: 1, length: -3 }, prefixable: true },
+    // Force, pressure, energy and power
+    'N': { factor: 1, dimensions: { mass: 1, length: 1, time: -2 }, prefixable: true },
+    'Pa': { factor: 1, dimensions: PRESSURE, prefixable: true },
+    'bar': { factor: 1e5, dimensions: PRESSURE, prefixable: true },
+    'barg': { factor: 1e5, dimensions: PRESSURE, offset: ATMOSPHERE },
+    'atm': { factor: ATMOSPHERE, dimensions: PRESSURE },
+    'psi': { factor: 6894.757293168, dimensions: PRESSURE },
+    'psig': { factor: 6894.757293168, dimensions: PRESSURE, offset: ATMOSPHERE },
+    'J': { factor: 1, dimensions: ENERGY, prefixable: true },
+    'cal': { factor: 4.184, dimensions: ENERGY, prefixable: true },
+    'W': { factor: 1, dimensions: { ...ENERGY, time: -3 }, prefixable: true },
+    // Viscosity
+    'P': { factor: 0.1, dimensions: { mass: 1, length: -1, time: -1 }, prefixable: true },
+};
 
-// Base unit for mass is 'kg'
-const massFactors = new Map<MassUnit, number>([
-    ['kg', 1],
-    ['g', 1000],
-    ['lbm', 2.20462],
-]);
+const PREFIXES: Record<string, number> = {
+    'G': 1e9, 'M': 1e6, 'k': 1e3, 'h': 1e2, 'd': 1e-1, 'c': 1e-2, 'm': 1e-3, 'µ': 1e-6, 'μ': 1e-6, 'u': 1e-6, 'n': 1e-9,
+};
+
+/** Dimensions of the categories of the original module, for `convertUnit`. */
+const UNIT_TYPE_DIMENSIONS: Record<UnitType, Partial<Dimensions>> = {
+    [UnitType.Pressure]: PRESSURE,
+    [UnitType.Temperature]: { temperature: 1 },
+    [UnitType.Mass]: { mass: 1 },
+    [UnitType.Length]: { length: 1 },
+    [UnitType.Volume]: { length: 3 },
+    [UnitType.Viscosity]: { mass: 1, length: -1, time: -1 },
+};
 
-// ... define other factor maps here
 
 // ===================================================================================
-// 3. CONVERSION FUNCTION
+// 3. PARSING
 // ===================================================================================
 
 /**
- * Converts a numeric value from a source unit to a target unit.
- * @param value The numeric value to convert.
- * @param fromUnit The starting unit.
- * @param toUnit The target unit.
- * @param unitType The category of the unit (e.g., Pressure, Temperature).
- * @returns The converted value.
+ * Parses a unit string. Units are multiplied with '*', '·', '.' or a space and divided
+ * with '/' (left to right: 'kJ/kg/K' is kJ/(kg·K)); parentheses group; exponents follow
+ * the symbol, optionally after '^' ('m3', 'm^3', 's-1', 'm²'). The number 1 stands for
+ * no unit, as in '1/h'. Symbols are case-sensitive (mK is millikelvin, MK megakelvin).
+ * @param expression The unit, e.g. 'kmol/m3'.
+ * @returns Its factor to SI, offset and dimensions.
+ * @throws Error for an unknown symbol or a malformed expression.
  */
-export function convertUnit(value: number, fromUnit: Unit, toUnit: Unit, unitType: UnitType): number {
-    if (fromUnit === toUnit) {
-        return value;
+export function parseUnit(expression: string): ParsedUnit {
+    const source = expression.trim().replace(/\s*([*/·.()^])\s*/g, '$1');
+    if (source === '') {
+        throw new Error('Empty unit.');
     }
+    let position = 0;
+    const fail = (message: string): never => {
+        throw new Error(`Cannot read unit "${expression}": ${message}`);
+    };
 
-    // Temperature is a special case (affine transformation, not just multiplication)
-    if (unitType === UnitType.Temperature) {
-        let valueInKelvin: number;
-        // First, convert from source unit to the base unit (Kelvin)
-        switch (fromUnit) {
-            case 'C':
-                valueInKelvin = value + 273.15;
-                break;
-            case 'F':
-                valueInKelvin = (value - 32) * (5 / 9) + 273.15;
-                break;
-            case 'K':
-                valueInKelvin = value;
-                break;
-            default:
-                throw new Error(`Unknown 'from' temperature unit: ${fromUnit}`);
+    // product := power (('*' | '·' | '.' | ' ' | '/') power)*
+    const parseProduct = (): ParsedUnit => {
+        let result = parsePower();
+        while (position < source.length && source[position] !== ')') {
+            const operator = source[position];
+            if (!'*·. /'.includes(operator)) fail(`unexpected "${operator}".`);
+            position++;
+            result = combine(result, parsePower(), operator === '/' ? -1 : 1);
         }
+        return result;
+    };
 
-        // Then, convert from Kelvin to the target unit
-        switch (toUnit) {
-            case 'C':
-                return valueInKelvin - 273.15;
-            case 'F':
-                return (valueInKelvin - 273.15) * (9 / 5) + 32;
-            case 'K':
-                return valueInKelvin;
-            default:
-                throw new Error(`Unknown 'to' temperature unit: ${toUnit}`);
+    // power := (symbol | '(' product ')') exponent?
+    const parsePower = (): ParsedUnit => {
+        let base: ParsedUnit;
+        if (source[position] === '(') {
+            position++;
+            base = parseProduct();
+            if (source[position] !== ')') fail('missing ")".');
+            position++;
+        } else if (/^1(?!\d)/.test(source.slice(position))) {
+            position++;
+            return unitless();
+        } else {
+            const match = /^[A-Za-zµμ°]+/.exec(source.slice(position));
+            if (!match) fail(`expected a unit at "${source.slice(position)}".`);
+            position += match![0].length;
+            base = lookupSymbol(match![0], expression);
         }
-    }
+        const exponent = /^(\^?-?\d+|[²³])/.exec(source.slice(position));
+        if (!exponent) return base;
+        position += exponent[0].length;
+        const power = exponent[0] === '²' ? 2 : exponent[0] === '³' ? 3 : Number(exponent[0].replace('^', ''));
+        return power === 1 ? base : combine(unitless(), base, power);
+    };
+
+    const result = parseProduct();
+    if (position < source.length) fail(`unexpected "${source.slice(position)}".`);
+    return { ...result, expression };
+}
+
+/**
+ * Whether two units measure the same quantity (same dimensions).
+ */
+export function isCompatible(a: string, b: string): boolean {
+    return sameDimensions(parseUnit(a).dimensions, parseUnit(b).dimensions);
+}
+
+/**
+ * Formats dimensions, e.g. 'mass·length^-1·time^-2'; 'dimensionless' for none.
+ */
+export function formatDimensions(dimensions: Dimensions): string {
+    const parts = DIMENSIONS
+        .filter(d => dimensions[d] !== 0)
+        .map(d => (dimensions[d] === 1 ? d : `${d}^${dimensions[d]}`));
+    return parts.length > 0 ? parts.join('·') : 'dimensionless';
+}
 
-    // For all other units, use the factor-based approach
-    let factors: Map<Unit, number> | undefined;
-
-    switch (unitType) {
-        case UnitType.Pressure:
-            factors = pressureFactors as Map<Unit, number>;
-            break;
-        case UnitType.Mass:
-            factors = massFactors as Map<Unit, number>;
-            break;
-        // Add cases for other unit types
-        default:
-            throw new Error(`Unit type "${unitType}" not implemented.`);
+function lookupSymbol(symbol: string, expression: string): ParsedUnit {
+    const exact = UNITS[symbol];
+    if (exact) return fromDefinition(exact);
+    for (const [prefix, scale] of Object.entries(PREFIXES)) {
+        const unit = symbol.startsWith(prefix) ? UNITS[symbol.slice(prefix.length)] : undefined;
+        if (unit?.prefixable) return { ...fromDefinition(unit), factor: scale * unit.factor };
     }
+    throw new Error(`Cannot read unit "${expression}": unknown unit "${symbol}".`);
+}
+
+function fromDefinition(definition: UnitDefinition): ParsedUnit {
+    return { expression: '', factor: definition.factor, offset: definition.offset ?? 0, dimensions: toDimensions(definition.dimensions) };
+}
+
+function unitless(): ParsedUnit {
+    return { expression: '', factor: 1, offset: 0, dimensions: toDimensions({}) };
+}
+
+// a * b^power; the offsets are dropped, so °C or barg in a compound unit is a difference
+function combine(a: ParsedUnit, b: ParsedUnit, power: number): ParsedUnit {
+    return {
+        expression: '',
+        factor: a.factor * b.factor ** power,
+        offset: 0,
+        dimensions: toDimensions(Object.fromEntries(DIMENSIONS.map(d => [d, a.dimensions[d] + power * b.dimensions[d]]))),
+    };
+}
+
+function toDimensions(partial: Partial<Dimensions>): Dimensions {
+    return { mass: 0, length: 0, time: 0, temperature: 0, amount: 0, ...partial };
+}
+
+function sameDimensions(a: Dimensions, b: Dimensions): boolean {
+    return DIMENSIONS.every(d => a[d] === b[d]);
+}
+
 
-    const fromFactor = factors.get(fromUnit);
-    const toFactor = factors.get(toUnit);
+// ===================================================================================
+// 4. CONVERSION FUNCTIONS
+// ===================================================================================
 
-    if (fromFactor === undefined || toFactor === undefined) {
-        throw new Error(`Invalid units for type "${unitType}": from '${fromUnit}', to '${toUnit}'`);
+/**
+ * Converts a value between any two units of the same dimensions.
+ * @param value The numeric value to convert.
+ * @param fromUnit The starting unit, e.g. 'kg/h'.
+ * @param toUnit The target unit, e.g. 'g/s'.
+ * @returns The converted value.
+ * @throws Error for unknown units or units of different dimensions.
+ */
+export function convert(value: number, fromUnit: string, toUnit: string): number {
+    const from = parseUnit(fromUnit);
+    const to = parseUnit(toUnit);
+    if (!sameDimensions(from.dimensions, to.dimensions)) {
+        throw new Error(`Cannot convert ${fromUnit} (${formatDimensions(from.dimensions)}) to ${toUnit} (${formatDimensions(to.dimensions)}).`);
     }
+    return (value * from.factor + from.offset - to.offset) / to.factor;
+}
 
-    // Convert the value to the base unit, then to the target unit.
-    const valueInBase = value / fromFactor;
-    return valueInBase * toFactor;
+/**
+ * Converts a numeric value from a source unit to a target unit.
+ * Kept for the callers of the original module; `convert` does the work.
+ * @param value The numeric value to convert.
+ * @param fromUnit The starting unit.
+ * @param toUnit The target unit.
+ * @param unitType The category of the unit (e.g., Pressure, Temperature).
+ * @returns The converted value.
+ * @throws Error if a unit is unknown or does not belong to the category.
+ */
+export function convertUnit(value: number, fromUnit: Unit, toUnit: Unit, unitType: UnitType): number {
+    const expected = toDimensions(UNIT_TYPE_DIMENSIONS[unitType]);
+    for (const unit of [fromUnit, toUnit]) {
+        if (!sameDimensions(parseUnit(unit).dimensions, expected)) {
+            throw new Error(`Invalid units for type "${unitType}": from '${fromUnit}', to '${toUnit}'`);
+        }
+    }
+    return convert(value, fromUnit, toUnit);
 }
 
 /*
@@ -132,6 +300,9 @@ try {
 
     const celsius = convertUnit(373.15, 'K', 'C', UnitType.Temperature);
     console.log(`373.15 K is ${celsius}°C`); // 100°C
+
+    const molPerLitre = convert(0.5, 'kmol/m3', 'mol/L'); // 0.5
+    const gaugeToAbsolute = convert(20, 'barg', 'bar'); // 21.01325
 } catch (e) {
     console.error(e);
 }